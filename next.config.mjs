@@ -1,5 +1,7 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  // Load ws from node_modules at runtime; bundling it breaks its optional native helpers
+  serverExternalPackages: ['ws'],
   // Webpack configuration to handle nostr-tools
   webpack: (config) => {
     // Add fallbacks for crypto modules
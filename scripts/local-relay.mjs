@@ -0,0 +1,129 @@
+// A minimal Nostr relay kept in memory, for development and tests
+// It speaks enough NIP-01 for Omestr (EVENT, REQ, CLOSE, EOSE and OK) and serves a NIP-11
+// information document. Nothing is persisted. Run it with `npm run relay`, optionally
+// setting PORT (default 7777), and point the app at ws://127.0.0.1:7777.
+import { createServer } from 'http';
+import { fileURLToPath } from 'url';
+import { WebSocketServer } from 'ws';
+import { matchFilters, verifyEvent } from 'nostr-tools';
+
+const DEFAULT_PORT = 7777;
+
+// Ephemeral events are passed on to subscribers but never stored (NIP-01)
+const isEphemeral = kind => kind >= 20000 && kind < 30000;
+
+export const RELAY_INFORMATION = {
+  name: 'Omestr local relay',
+  description: 'In-memory stand-in relay for development and tests',
+  software: 'omestr-local-relay',
+  version: '0.1.0',
+  supported_nips: [1, 11],
+  limitation: { max_subscriptions: 20 },
+};
+
+// Start the relay on a port, 0 for any free one
+// `closeSubscriptions` makes it answer every REQ with CLOSED and that reason, like a relay
+// that requires auth. Resolves once it's listening, with its URL and a function to stop it.
+/** @param {{ port?: number, closeSubscriptions?: string }} [options] */
+export const startLocalRelay = ({ port = DEFAULT_PORT, closeSubscriptions } = {}) => {
+  const events = [];
+
+  const server = createServer((request, response) => {
+    if (request.headers.accept?.includes('application/nostr+json')) {
+      response.writeHead(200, {
+        'Content-Type': 'application/nostr+json',
+        'Access-Control-Allow-Origin': '*',
+      });
+      response.end(JSON.stringify(RELAY_INFORMATION));
+      return;
+    }
+
+    response.writeHead(404);
+    response.end();
+  });
+
+  const wss = new WebSocketServer({ server });
+
+  wss.on('connection', socket => {
+    const subscriptions = new Map();
+    const send = message => socket.send(JSON.stringify(message));
+
+    socket.on('message', raw => {
+      let message;
+      try {
+        message = JSON.parse(String(raw));
+      } catch (_error) {
+        send(['NOTICE', 'invalid: message is not JSON']);
+        return;
+      }
+
+      const [type, ...rest] = Array.isArray(message) ? message : [];
+
+      if (type === 'EVENT') {
+        const [event] = rest;
+        if (!event || !verifyEvent(event)) {
+          send(['OK', event?.id ?? '', false, 'invalid: bad signature']);
+          return;
+        }
+
+        if (!isEphemeral(event.kind) && !events.some(stored => stored.id === event.id)) {
+          events.push(event);
+        }
+        send(['OK', event.id, true, '']);
+
+        // Pass it on to every open subscription it matches, including on other connections
+        wss.clients.forEach(client => client.emit('omestr:event', event));
+      } else if (type === 'REQ') {
+        const [subId, ...filters] = rest;
+        if (closeSubscriptions) {
+          send(['CLOSED', subId, closeSubscriptions]);
+          return;
+        }
+
+        subscriptions.set(subId, filters);
+        const limit = Math.min(...filters.map(filter => filter.limit ?? Infinity));
+        events
+          .filter(event => matchFilters(filters, event))
+          .sort((a, b) => b.created_at - a.created_at)
+          .slice(0, limit)
+          .forEach(event => send(['EVENT', subId, event]));
+        send(['EOSE', subId]);
+      } else if (type === 'CLOSE') {
+        subscriptions.delete(rest[0]);
+      } else {
+        send(['NOTICE', `invalid: unknown message type ${type}`]);
+      }
+    });
+
+    socket.on('omestr:event', event => {
+      subscriptions.forEach((filters, subId) => {
+        if (matchFilters(filters, event)) {
+          send(['EVENT', subId, event]);
+        }
+      });
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(port, '127.0.0.1', () => {
+      const { port: boundPort } = server.address();
+      resolve({
+        url: `ws://127.0.0.1:${boundPort}`,
+        port: boundPort,
+        close: () => new Promise(done => {
+          wss.clients.forEach(client => client.terminate());
+          wss.close();
+          server.close(() => done());
+        }),
+      });
+    });
+  });
+};
+
+// Started directly rather than imported by a test
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = Number(process.env.PORT) || DEFAULT_PORT;
+  startLocalRelay({ port }).then(({ url }) => {
+    console.log(`[Local relay] Listening on ${url}`);
+  });
+}
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStore, getStore, setStore } from '../../../lib/store';
+import { resetRateLimits } from '../../../lib/rateLimit';
+import { POST as register } from '../matchmaking/route';
+import { DELETE, GET, POST } from './route';
+
+const ADMIN_TOKEN = 'admin-secret';
+
+const adminRequest = (method: string, options: { token?: string; body?: unknown; query?: string } = {}) =>
+  new Request(`http://localhost/api/admin${options.query ?? ''}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+    },
+    body: options.body ? JSON.stringify(options.body) : undefined,
+  });
+
+const registerUser = async (id: string, headers: Record<string, string> = {}) => {
+  const response = await register(new Request('http://localhost/api/matchmaking', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({ id, pubkey: id.padEnd(64, '0'), sessionId: `session-${id}`, browserId: `browser-${id}` }),
+  }));
+  return { status: response.status, body: await response.json() };
+};
+
+beforeEach(() => {
+  setStore(createMemoryStore());
+  resetRateLimits();
+  vi.stubEnv('OMESTR_ADMIN_TOKEN', ADMIN_TOKEN);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('/api/admin', () => {
+  it('is not served when no admin token is configured', async () => {
+    vi.stubEnv('OMESTR_ADMIN_TOKEN', '');
+
+    expect((await GET(adminRequest('GET', { token: ADMIN_TOKEN }))).status).toBe(404);
+  });
+
+  it('rejects requests without the admin token', async () => {
+    await registerUser('alice');
+    const ban = { type: 'browserId', value: 'browser-alice', durationMinutes: 10 };
+
+    expect((await GET(adminRequest('GET'))).status).toBe(401);
+    expect((await GET(adminRequest('GET', { token: 'wrong' }))).status).toBe(401);
+    expect((await POST(adminRequest('POST', { body: ban }))).status).toBe(401);
+    expect((await DELETE(adminRequest('DELETE', { query: '?banId=x' }))).status).toBe(401);
+
+    expect(await getStore().read(data => data.bans)).toEqual([]);
+    expect(await getStore().read(data => data.lookingUsers.map(user => user.id))).toEqual(['alice']);
+  });
+
+  it('bans a browser, removing it and refusing its registrations until the ban is lifted', async () => {
+    await registerUser('alice');
+
+    const response = await POST(adminRequest('POST', {
+      token: ADMIN_TOKEN,
+      body: { type: 'browserId', value: 'browser-alice', durationMinutes: 10, reason: 'spam' },
+    }));
+    const { ban, removedIds } = await response.json();
+    expect(response.status).toBe(200);
+    expect(removedIds).toEqual(['alice']);
+
+    const refused = await registerUser('alice');
+    expect(refused.status).toBe(403);
+    expect(refused.body).toMatchObject({ code: 'banned', bannedUntil: ban.expiresAt });
+
+    expect((await DELETE(adminRequest('DELETE', { token: ADMIN_TOKEN, query: `?banId=${ban.id}` }))).status).toBe(200);
+    expect((await registerUser('alice')).status).toBe(200);
+  });
+
+  it('lets a ban run out by itself', async () => {
+    vi.useFakeTimers();
+    try {
+      await POST(adminRequest('POST', {
+        token: ADMIN_TOKEN,
+        body: { type: 'pubkey', value: 'alice'.padEnd(64, '0'), durationMinutes: 1 },
+      }));
+      expect((await registerUser('alice')).status).toBe(403);
+
+      vi.advanceTimersByTime(60 * 1000);
+      expect((await registerUser('alice')).status).toBe(200);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('only accepts IP bans when client IPs are known', async () => {
+    const ban = { type: 'ip', value: '1.2.3.4', durationMinutes: 10 };
+    expect((await POST(adminRequest('POST', { token: ADMIN_TOKEN, body: ban }))).status).toBe(400);
+
+    vi.stubEnv('OMESTR_TRUSTED_PROXY_HOPS', '1');
+    expect((await POST(adminRequest('POST', { token: ADMIN_TOKEN, body: ban }))).status).toBe(200);
+
+    expect((await registerUser('alice', { 'x-forwarded-for': '1.2.3.4' })).status).toBe(403);
+    expect((await registerUser('bob', { 'x-forwarded-for': '5.6.7.8' })).status).toBe(200);
+  });
+});
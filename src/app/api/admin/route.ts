@@ -0,0 +1,193 @@
+import { NextResponse } from 'next/server';
+import { getStore, LookingUser, StoreData } from '../../../lib/store';
+import {
+  BAN_TYPES,
+  isAdminEnabled,
+  isAdminRequest,
+  createBan,
+  applyBan,
+  cleanupExpiredBans
+} from '../../../lib/moderation';
+import { checkRateLimit, getTrustedProxyHops } from '../../../lib/rateLimit';
+
+// Admin routes are only served when OMESTR_ADMIN_TOKEN is set, and every request must send it
+// Returns a response to send back, or null to carry on.
+const checkAdmin = (request: Request): NextResponse | null => {
+  const limited = checkRateLimit(request);
+  if (limited) return limited;
+
+  if (!isAdminEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  if (!isAdminRequest(request)) {
+    console.log('[Admin API] Rejected request with missing or invalid admin token');
+    return NextResponse.json(
+      { error: 'Missing or invalid admin token' },
+      { status: 401 }
+    );
+  }
+
+  return null;
+};
+
+// Everything about a user except the hash of their token
+const toAdminUser = (user: LookingUser) => {
+  const { tokenHash: _tokenHash, ...adminUser } = user;
+  return adminUser;
+};
+
+// Group matched users into their chat sessions
+const getActiveSessions = (data: StoreData) => {
+  const sessions = new Map<string, {
+    chatSessionId: string;
+    userIds: string[];
+    messageCount: number;
+    lastMessageAt?: number;
+  }>();
+
+  data.lookingUsers
+    .filter(user => user.status === 'matched' && user.chatSessionId)
+    .forEach(user => {
+      const chatSessionId = user.chatSessionId!;
+      const session = sessions.get(chatSessionId) || { chatSessionId, userIds: [], messageCount: 0 };
+      session.userIds.push(user.id);
+      sessions.set(chatSessionId, session);
+    });
+
+  data.messages.forEach(message => {
+    const session = sessions.get(message.chatSessionId);
+    if (session) {
+      session.messageCount++;
+      session.lastMessageAt = Math.max(session.lastMessageAt ?? 0, message.timestamp);
+    }
+  });
+
+  return Array.from(sessions.values());
+};
+
+// Route handler for inspecting users, chat sessions, reports and bans
+export async function GET(request: Request) {
+  try {
+    const rejected = checkAdmin(request);
+    if (rejected) return rejected;
+
+    const snapshot = await getStore().update(data => {
+      cleanupExpiredBans(data);
+
+      return {
+        lookingUsers: data.lookingUsers.map(toAdminUser),
+        sessions: getActiveSessions(data),
+        reports: data.reports,
+        bans: data.bans,
+      };
+    }, []);
+
+    return NextResponse.json({ ...snapshot, success: true });
+  } catch (error) {
+    console.error('Error in admin GET:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Route handler for banning a browserId, pubkey or IP for a number of minutes
+export async function POST(request: Request) {
+  try {
+    const rejected = checkAdmin(request);
+    if (rejected) return rejected;
+
+    const body = await request.json();
+    const { type, value, durationMinutes, reason } = body;
+
+    if (!BAN_TYPES.includes(type) || typeof value !== 'string' || !value) {
+      return NextResponse.json(
+        { error: `Ban type must be one of ${BAN_TYPES.join(', ')}, with a value` },
+        { status: 400 }
+      );
+    }
+
+    // Without a trusted proxy there are no client IPs, so an IP ban could never match anyone
+    if (type === 'ip' && getTrustedProxyHops() === 0) {
+      return NextResponse.json(
+        { error: 'IP bans need OMESTR_TRUSTED_PROXY_HOPS to be set' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof durationMinutes !== 'number' || !Number.isFinite(durationMinutes) || durationMinutes <= 0) {
+      return NextResponse.json(
+        { error: 'durationMinutes must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const ban = createBan(type, value, durationMinutes * 60 * 1000, typeof reason === 'string' ? reason : undefined);
+
+    const removed = await getStore().update(data => {
+      cleanupExpiredBans(data);
+      return applyBan(data, ban);
+    });
+
+    console.log(`[Admin API] Banned ${type} ${value.substring(0, 12)} for ${durationMinutes} minutes, removed ${removed.length} users`);
+
+    return NextResponse.json({
+      ban,
+      removedIds: removed.map(user => user.id),
+      success: true
+    });
+  } catch (error) {
+    console.error('Error in admin POST:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Route handler for lifting a ban (?banId=) or dismissing a reviewed report (?reportId=)
+export async function DELETE(request: Request) {
+  try {
+    const rejected = checkAdmin(request);
+    if (rejected) return rejected;
+
+    const { searchParams } = new URL(request.url);
+    const banId = searchParams.get('banId');
+    const reportId = searchParams.get('reportId');
+
+    if (!banId && !reportId) {
+      return NextResponse.json(
+        { error: 'Missing banId or reportId query parameter' },
+        { status: 400 }
+      );
+    }
+
+    const removed = await getStore().update(data => {
+      const before = data.bans.length + data.reports.length;
+      data.bans = data.bans.filter(ban => ban.id !== banId);
+      data.reports = data.reports.filter(report => report.id !== reportId);
+      return before - data.bans.length - data.reports.length;
+    });
+
+    if (removed === 0) {
+      return NextResponse.json(
+        { error: 'Not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`[Admin API] Removed ${banId ? `ban ${banId}` : `report ${reportId}`}`);
+
+    return NextResponse.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Error in admin DELETE:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
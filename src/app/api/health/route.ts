@@ -1,10 +1,14 @@
 import { NextResponse } from 'next/server';
+import { checkRateLimit } from '../../../lib/rateLimit';
 
-export async function GET() {
+export async function GET(request: Request) {
+  const limited = checkRateLimit(request);
+  if (limited) return limited;
+  
   return NextResponse.json({ 
     status: 'ok', 
     timestamp: Date.now(),
     app: 'omestr',
     description: 'A Nostr-based chat application'
   });
-} 
\ No newline at end of file
+} 
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { getStore } from '../../../lib/store';
+import { getRequestToken, ownsUser } from '../../../lib/matchmaking/ownership';
+import { expireAbsentUsers, markSeen } from '../../../lib/matchmaking/presence';
+import { checkRateLimit } from '../../../lib/rateLimit';
+
+// Route handler for telling the server we're still here, while looking or chatting
+// A user who misses heartbeats for too long is removed, and their partner told they timed out.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { userId } = body;
+    
+    const limited = checkRateLimit(request);
+    if (limited) return limited;
+    
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+    
+    const token = getRequestToken(request);
+    
+    // Nothing streamed depends on when someone was last seen, so listeners are only woken
+    // for whoever was removed
+    const result = await getStore().update(data => {
+      // Anyone already gone stays gone, including this user
+      const expired = expireAbsentUsers(data);
+      
+      const user = data.lookingUsers.find(u => u.id === userId);
+      if (!user) {
+        return { found: false as const, expired };
+      }
+      
+      // Only the owner of userId may keep them alive
+      if (!ownsUser(user, token)) {
+        return { found: true as const, authorized: false as const, expired };
+      }
+      
+      markSeen(user);
+      return { found: true as const, authorized: true as const, expired, status: user.status };
+    }, ({ expired }) => expired);
+    
+    if (!result.found) {
+      return NextResponse.json(
+        { error: 'User not found', code: 'expired' },
+        { status: 404 }
+      );
+    }
+    
+    if (!result.authorized) {
+      return NextResponse.json(
+        { error: 'Missing or invalid user token' },
+        { status: 401 }
+      );
+    }
+    
+    return NextResponse.json({
+      status: result.status,
+      success: true
+    });
+  } catch (error) {
+    console.error('Error in heartbeat POST:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
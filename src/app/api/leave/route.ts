@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { getStore, DisconnectReason } from '../../../lib/store';
+import { getRequestToken, ownsUser, parseToken } from '../../../lib/matchmaking/ownership';
+import { leaveMatchmaking, LEAVE_REASONS } from '../../../lib/matchmaking/sessions';
+import { checkRateLimit } from '../../../lib/rateLimit';
+
+// Route handler for leaving when the page is closed, sent with navigator.sendBeacon
+// Beacons can't set headers, so the token may be sent in the body as `{ userId, token, reason }`.
+// `reason` defaults to `closed`.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { userId, reason = 'closed' } = body;
+    
+    const token = getRequestToken(request) ?? parseToken(body.token);
+    
+    const limited = checkRateLimit(request, { token });
+    if (limited) return limited;
+    
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+    
+    if (!LEAVE_REASONS.includes(reason as DisconnectReason)) {
+      return NextResponse.json(
+        { error: `reason must be one of: ${LEAVE_REASONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    const { authorized, topics } = await getStore().update(data => {
+      const user = data.lookingUsers.find(u => u.id === userId);
+      
+      // Leaving twice is fine, but only the owner of userId may make them leave
+      if (!user) return { authorized: true, topics: [] };
+      if (!ownsUser(user, token)) return { authorized: false, topics: [] };
+      
+      return { authorized: true, topics: leaveMatchmaking(data, user, reason as DisconnectReason) };
+    }, ({ topics }) => topics);
+    
+    if (!authorized) {
+      return NextResponse.json(
+        { error: 'Missing or invalid user token' },
+        { status: 401 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Error in leave POST:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryStore, getStore, setStore } from '../../../lib/store';
+import { POST } from './route';
+
+type Registration = { id: string; browserId: string; status?: string };
+
+const register = async ({ id, browserId, status }: Registration, token?: string) => {
+  const response = await POST(new Request('http://localhost/api/matchmaking', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify({ id, pubkey: id.padEnd(64, '0'), sessionId: `session-${id}`, browserId, status }),
+  }));
+  return { status: response.status, body: await response.json() };
+};
+
+beforeEach(() => {
+  setStore(createMemoryStore());
+});
+
+describe('POST /api/matchmaking', () => {
+  it('issues a token for a new ID and requires it for later updates', async () => {
+    const first = await register({ id: 'alice', browserId: 'browser-alice' });
+    expect(first.status).toBe(200);
+    expect(first.body.token).toMatch(/^[0-9a-f]{64}$/);
+
+    expect((await register({ id: 'alice', browserId: 'browser-alice' })).status).toBe(401);
+    expect((await register({ id: 'alice', browserId: 'browser-alice' }, first.body.token)).status).toBe(200);
+  });
+
+  it("never lets a new ID take over another user's entry or chat by sending their browserId", async () => {
+    await register({ id: 'alice', browserId: 'browser-alice' });
+    await register({ id: 'bob', browserId: 'browser-bob' });
+    const [alice] = await getStore().read(data => data.lookingUsers.filter(u => u.id === 'alice'));
+    expect(alice.status).toBe('matched');
+
+    const intruder = await register({ id: 'mallory', browserId: 'browser-alice', status: 'matched' });
+
+    expect(intruder.status).toBe(200);
+    expect(intruder.body.match).toBeNull();
+    expect(intruder.body.user).toMatchObject({ id: 'mallory' });
+    expect(intruder.body.user.matchedWith).toBeUndefined();
+    expect(intruder.body.user.chatSessionId).toBeUndefined();
+
+    const users = await getStore().read(data => data.lookingUsers);
+    expect(users.find(u => u.id === 'alice')).toMatchObject({ status: 'matched', matchedWith: 'bob', chatSessionId: alice.chatSessionId });
+    expect(users.find(u => u.id === 'mallory')?.matchedWith).toBeUndefined();
+  });
+});
@@ -1,46 +1,50 @@
 import { NextResponse } from 'next/server';
+import { getStore, userTopic, LookingUser, StoreData, DisconnectReason } from '../../../lib/store';
+import {
+  tryMatch,
+  getPairTopics,
+  normalizeInterests,
+  normalizeBlockedBrowserKeys,
+  cleanupRecentPartners
+} from '../../../lib/matchmaking/matcher';
+import { leaveMatchmaking, cleanupEndedChats, LEAVE_REASONS } from '../../../lib/matchmaking/sessions';
+import { normalizeLanguage } from '../../../lib/matchmaking/language';
+import { expireAbsentUsers } from '../../../lib/matchmaking/presence';
+import { getQueueSummary, cleanupMatchTimes } from '../../../lib/matchmaking/queue';
+import { issueUserToken, getRequestToken, ownsUser, toPublicUser } from '../../../lib/matchmaking/ownership';
+import { checkRateLimit, getClientIp } from '../../../lib/rateLimit';
+import { findActiveBan, cleanupExpiredBans } from '../../../lib/moderation';
 
-// In-memory store for users looking to chat
-// This will be reset when the server restarts
-type LookingUser = {
-  id: string;
-  pubkey: string;
-  sessionId: string;
-  timestamp: number;
-  browserId: string;
-  status: 'looking' | 'matched';
-  matchedWith?: string;
-  chatSessionId?: string; // Track conversation between matched users
-};
-
-// Clean up users older than 5 minutes
-const EXPIRY_TIME = 5 * 60 * 1000; 
-
-// Store for users looking to chat
-let lookingUsers: LookingUser[] = [];
-
-// Clean up old users
-const cleanupOldUsers = () => {
+// Clean up users who stopped sending heartbeats, and records that have run their course
+// Returns the topics that removing absent users changed.
+const cleanupOldUsers = (data: StoreData) => {
   const now = Date.now();
-  lookingUsers = lookingUsers.filter(user => (now - user.timestamp) < EXPIRY_TIME);
+  
+  const expiredTopics = expireAbsentUsers(data, now);
+  cleanupRecentPartners(data, now);
+  cleanupEndedChats(data, now);
+  cleanupMatchTimes(data, now);
+  cleanupExpiredBans(data, now);
+  return expiredTopics;
 };
 
-// Generate a random string for chat session IDs
-const generateRandomId = (length: number = 12): string => {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-  let result = '';
-  for (let i = 0; i < length; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return result;
-};
+const unauthorizedResponse = () => NextResponse.json(
+  { error: 'Missing or invalid user token' },
+  { status: 401 }
+);
 
 // Route handler for registering a user looking to chat
+// The first registration of an ID returns a token; later requests for that ID must send it
+// as `Authorization: Bearer <token>`.
 export async function POST(request: Request) {
   try {
     // Parse request body
     const body = await request.json();
-    const { id, pubkey, sessionId, browserId, status, chatSessionId } = body;
+    const { id, pubkey, sessionId, browserId, status, chatSessionId, interests, blocked, language, anyLanguage } = body;
+    
+    // Any registration may create a user, so registrations have a limit of their own
+    const limited = checkRateLimit(request, { register: true });
+    if (limited) return limited;
     
     if (!id || !pubkey || !sessionId || !browserId) {
       return NextResponse.json(
@@ -49,137 +53,114 @@ export async function POST(request: Request) {
       );
     }
     
-    // Clean up old users
-    cleanupOldUsers();
+    const token = getRequestToken(request);
+    const ip = getClientIp(request) ?? undefined;
     
-    // Check if user exists
-    const existingUserIndex = lookingUsers.findIndex(user => 
-      user.id === id || user.browserId === browserId
-    );
-    
-    // Update or add user
-    const userData: LookingUser = {
-      id,
-      pubkey,
-      sessionId,
-      browserId,
-      status: status || 'looking',
-      timestamp: Date.now(),
-      chatSessionId // Use provided chatSessionId if present
-    };
-    
-    // If existing user is already matched, preserve matchedWith
-    if (existingUserIndex >= 0 && lookingUsers[existingUserIndex].status === 'matched') {
-      userData.matchedWith = lookingUsers[existingUserIndex].matchedWith;
+    const result = await getStore().update(data => {
+      // Clean up old users
+      const expiredTopics = cleanupOldUsers(data);
+      const { lookingUsers } = data;
       
-      // If user is trying to go back to looking while already matched, prevent it
-      if (status === 'looking' && userData.matchedWith) {
-        console.log(`[Matchmaking API] User ${id.substring(0, 6)}... tried to go back to looking while matched with ${userData.matchedWith.substring(0, 6)}...`);
-        userData.status = 'matched';
+      // Banned browsers, keys and addresses can't join
+      const ban = findActiveBan(data, { browserId, pubkey, ip });
+      if (ban) {
+        return { authorized: false as const, ban, topics: expiredTopics };
       }
-    }
-    
-    if (existingUserIndex >= 0) {
-      // Update existing user
-      lookingUsers[existingUserIndex] = {
-        ...lookingUsers[existingUserIndex],
-        ...userData
+      
+      // Only whoever registered an ID may update it
+      // Entries are only ever found by ID, never by browser, so nobody can take over another
+      // user's entry or chat by sending their browserId. Other tabs of the same browser keep
+      // entries of their own, and are never matched with each other.
+      const existingUserIndex = lookingUsers.findIndex(user => user.id === id);
+      const existingUser = existingUserIndex >= 0 ? lookingUsers[existingUserIndex] : undefined;
+      if (existingUser && !ownsUser(existingUser, token)) {
+        return { authorized: false as const, ban: null, topics: expiredTopics };
+      }
+      
+      // A new ID gets a fresh token; an existing one keeps the token it was issued
+      const issued = existingUser ? null : issueUserToken();
+      
+      // Update or add user
+      const userData: LookingUser = {
+        id,
+        pubkey,
+        sessionId,
+        browserId,
+        status: status || 'looking',
+        timestamp: Date.now(),
+        lastSeenAt: Date.now(),
+        chatSessionId, // Use provided chatSessionId if present
+        interests: interests !== undefined ? normalizeInterests(interests) : existingUser?.interests,
+        blockedBrowserKeys: blocked !== undefined ? normalizeBlockedBrowserKeys(blocked) : existingUser?.blockedBrowserKeys,
+        language: language !== undefined ? normalizeLanguage(language) : existingUser?.language,
+        anyLanguage: anyLanguage !== undefined ? anyLanguage === true : existingUser?.anyLanguage,
+        // Keep their place in the queue if they were already looking
+        lookingSince: existingUser?.status === 'looking'
+          ? existingUser.lookingSince ?? existingUser.timestamp
+          : Date.now(),
+        tokenHash: existingUser ? existingUser.tokenHash : issued!.tokenHash,
+        ip
       };
-    } else {
-      // Add new user
-      lookingUsers.push(userData);
-    }
-    
-    // Find a match for this user (excluding users from the same browser)
-    let match: LookingUser | null = null;
-    
-    if (status === 'looking') {
-      // First check if user is already matched with someone (to prevent multiple matches)
-      const userHasMatch = lookingUsers.some(u => 
-        u.matchedWith === id || (userData.matchedWith && u.id === userData.matchedWith)
-      );
       
-      if (userHasMatch) {
-        console.log(`[Matchmaking API] User ${id.substring(0, 6)}... is already matched, not looking for new match`);
-        
-        // If user has a match but status is 'looking', update the status to 'matched'
-        if (userData.status === 'looking') {
-          const userIndex = lookingUsers.findIndex(u => u.id === id);
-          if (userIndex >= 0) {
-            lookingUsers[userIndex].status = 'matched';
-            userData.status = 'matched';
-          }
+      // A matched user stays in their chat, whatever status they send, until they leave
+      if (existingUser?.status === 'matched' && existingUser.matchedWith) {
+        if (status === 'looking') {
+          console.log(`[Matchmaking API] User ${id.substring(0, 6)}... tried to go back to looking while matched with ${existingUser.matchedWith.substring(0, 6)}...`);
         }
-        
-        // Find the existing match to return it
-        match = lookingUsers.find(u => u.id === userData.matchedWith) || null;
+        userData.status = 'matched';
+        userData.matchedWith = existingUser.matchedWith;
+        userData.chatSessionId = existingUser.chatSessionId;
+      }
+      
+      if (existingUser) {
+        // Update existing user
+        lookingUsers[existingUserIndex] = {
+          ...existingUser,
+          ...userData
+        };
       } else {
-        // Only match with users who are:
-        // 1. Not this user
-        // 2. Not from the same browser
-        // 3. Currently looking (not already matched)
-        // 4. Have no matchedWith property
-        match = lookingUsers.find(user => 
-          user.id !== id && 
-          user.browserId !== browserId && 
-          user.status === 'looking' &&
-          !user.matchedWith
-        ) || null;
-        
-        // If we found a match, update both users
-        if (match !== null) {
-          // Generate a shared chat session ID for both users
-          const sharedChatSessionId = generateRandomId(16);
-          
-          // Update the current user to indicate they're matched
-          const currentUserIndex = lookingUsers.findIndex(user => user.id === id);
-          if (currentUserIndex >= 0) {
-            lookingUsers[currentUserIndex].status = 'matched';
-            lookingUsers[currentUserIndex].matchedWith = match.id;
-            lookingUsers[currentUserIndex].chatSessionId = sharedChatSessionId;
-          }
-          
-          // Update the matched user to indicate they're matched
-          const matchId = match.id; // Store ID in variable to avoid null issues
-          const matchedUserIndex = lookingUsers.findIndex(user => user.id === matchId);
-          if (matchedUserIndex >= 0) {
-            lookingUsers[matchedUserIndex].status = 'matched';
-            lookingUsers[matchedUserIndex].matchedWith = id;
-            lookingUsers[matchedUserIndex].chatSessionId = sharedChatSessionId;
-          }
-          
-          // Update the match object to include chatSessionId
-          match = {
-            ...match,
-            status: 'matched',
-            matchedWith: id,
-            chatSessionId: sharedChatSessionId
-          };
-          
-          console.log(`[Matchmaking API] Matched user ${id.substring(0, 6)}... with user ${match.id.substring(0, 6)}...`);
-          console.log(`[Matchmaking API] Chat session ID: ${sharedChatSessionId}`);
-        }
+        // Add new user
+        lookingUsers.push(userData);
       }
+      
+      // Pair them if they're looking, or return the partner they already have
+      // Pairing only ever takes two waiting users, so nobody ends up matched twice.
+      const user = lookingUsers.find(u => u.id === id)!;
+      const { match: newMatch, pairs } = tryMatch(data, id);
+      const match = newMatch
+        ?? (user.matchedWith ? lookingUsers.find(u => u.id === user.matchedWith) || null : null);
+      
+      // Their entry and their place in the queue changed, as did anyone the queue run paired
+      const topics = [
+        ...expiredTopics,
+        userTopic(id),
+        'queue' as const,
+        ...getPairTopics(pairs)
+      ];
+      
+      return { authorized: true as const, user, match, token: issued?.token, topics };
+    }, ({ topics }) => topics);
+    
+    if (!result.authorized && result.ban) {
+      console.log(`[Matchmaking API] Rejected banned user ${id.substring(0, 6)}... (${result.ban.type} ban ${result.ban.id})`);
+      return NextResponse.json(
+        { error: 'You have been banned from chatting', code: 'banned', bannedUntil: result.ban.expiresAt },
+        { status: 403 }
+      );
     }
     
-    // If the user is already matched, return their existing match
-    if (status !== 'looking' && userData.matchedWith) {
-      match = lookingUsers.find(user => user.id === userData.matchedWith) || null;
-      
-      // Make sure both sides have the same chatSessionId
-      if (match && userData.chatSessionId && match.chatSessionId !== userData.chatSessionId) {
-        const matchIndex = lookingUsers.findIndex(user => user.id === userData.matchedWith);
-        if (matchIndex >= 0) {
-          lookingUsers[matchIndex].chatSessionId = userData.chatSessionId;
-          match.chatSessionId = userData.chatSessionId;
-        }
-      }
+    if (!result.authorized) {
+      console.log(`[Matchmaking API] Rejected unauthenticated update of user ${id.substring(0, 6)}...`);
+      return unauthorizedResponse();
     }
     
+    const { user, match, token: issuedToken } = result;
+    
     // Return the updated user data and potential match
     return NextResponse.json({
-      user: userData,
-      match: match,
+      user: toPublicUser(user),
+      match: match ? toPublicUser(match) : null,
+      token: issuedToken,
       success: true
     });
   } catch (error) {
@@ -191,17 +172,19 @@ export async function POST(request: Request) {
   }
 }
 
-// Route handler for getting looking users
+// Route handler for checking whether a user has been matched
+// While they wait it also returns their place in the queue, as counts only. Like updates,
+// lookups must send the token issued for the ID.
 export async function GET(request: Request) {
   try {
-    // Clean up old users
-    cleanupOldUsers();
-    
     // Get query parameters
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
     const browserId = searchParams.get('browserId');
     
+    const limited = checkRateLimit(request);
+    if (limited) return limited;
+    
     if (!id || !browserId) {
       return NextResponse.json(
         { error: 'Missing required query parameters' },
@@ -209,18 +192,45 @@ export async function GET(request: Request) {
       );
     }
     
-    // Check if this user has a match
-    const user = lookingUsers.find(u => u.id === id);
+    const token = getRequestToken(request);
     
-    // Only return the match if user is currently in the matched state
-    let match = null;
-    if (user && user.status === 'matched' && user.matchedWith) {
-      match = lookingUsers.find(u => u.id === user.matchedWith);
+    const result = await getStore().update(data => {
+      // Clean up old users
+      const expiredTopics = cleanupOldUsers(data);
+      const { lookingUsers } = data;
       
-      if (match) {
-        console.log(`[Matchmaking API] Found match for user ${id.substring(0, 6)}... with user ${match.id.substring(0, 6)}...`);
-        console.log(`[Matchmaking API] Chat session ID: ${match.chatSessionId || 'none'}`);
+      // Check if this user has a match, which only whoever registered the ID may see
+      const user = lookingUsers.find(u => u.id === id);
+      if (!ownsUser(user, token)) {
+        return { authorized: false as const, topics: expiredTopics };
       }
+      
+      // Retry matching while they wait, since interest matching widens over time
+      const { match: newMatch, pairs } = user?.status === 'looking' ? tryMatch(data, id) : { match: null, pairs: [] };
+      let match = newMatch;
+      
+      // Only return the match if user is currently in the matched state
+      if (!match && user && user.status === 'matched' && user.matchedWith) {
+        match = lookingUsers.find(u => u.id === user.matchedWith) || null;
+      }
+      
+      return {
+        authorized: true as const,
+        topics: [...expiredTopics, ...getPairTopics(pairs)],
+        user,
+        match,
+        queue: match ? undefined : getQueueSummary(data, id)
+      };
+    }, ({ topics }) => topics);
+    
+    if (!result.authorized) {
+      return unauthorizedResponse();
+    }
+    const { user, match, queue } = result;
+    
+    if (match) {
+      console.log(`[Matchmaking API] Found match for user ${id.substring(0, 6)}... with user ${match.id.substring(0, 6)}...`);
+      console.log(`[Matchmaking API] Chat session ID: ${match.chatSessionId || 'none'}`);
     }
     
     // Print status of the user for debugging
@@ -228,15 +238,9 @@ export async function GET(request: Request) {
       console.log(`[Matchmaking API] User ${id.substring(0, 6)}... status: ${user.status}, matchedWith: ${user.matchedWith?.substring(0, 6) || 'none'}`);
     }
     
-    // Get all other looking users (for debugging)
-    const otherUsers = lookingUsers.filter(u => 
-      u.id !== id && u.browserId !== browserId
-    );
-    
     return NextResponse.json({
-      match,
-      otherUsers,
-      userCount: lookingUsers.length,
+      match: match ? toPublicUser(match) : null,
+      queue,
       success: true
     });
   } catch (error) {
@@ -249,11 +253,16 @@ export async function GET(request: Request) {
 }
 
 // Route handler for removing a user
+// `reason` tells their partner why they left: `skipped` (the default) or `closed`.
 export async function DELETE(request: Request) {
   try {
     // Get query parameters
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
+    const reasonParam = searchParams.get('reason') || 'skipped';
+    
+    const limited = checkRateLimit(request);
+    if (limited) return limited;
     
     if (!id) {
       return NextResponse.json(
@@ -262,26 +271,40 @@ export async function DELETE(request: Request) {
       );
     }
     
-    // Find the user to remove
-    const user = lookingUsers.find(u => u.id === id);
+    if (!LEAVE_REASONS.includes(reasonParam as DisconnectReason)) {
+      return NextResponse.json(
+        { error: `reason must be one of: ${LEAVE_REASONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const reason = reasonParam as DisconnectReason;
+    
+    const token = getRequestToken(request);
     
-    // If the user is matched, update their match to be no longer matched
-    if (user && user.matchedWith) {
-      const matchedUserIndex = lookingUsers.findIndex(u => u.id === user.matchedWith);
-      if (matchedUserIndex >= 0) {
-        console.log(`[Matchmaking API] User ${id.substring(0, 6)}... disconnecting from ${user.matchedWith.substring(0, 6)}...`);
-        lookingUsers[matchedUserIndex].matchedWith = undefined;
-        lookingUsers[matchedUserIndex].status = 'looking'; // Reset to looking so they can be matched again
+    const { remainingCount, topics } = await getStore().update(data => {
+      // Find the user to remove
+      const user = data.lookingUsers.find(u => u.id === id);
+      
+      // Only whoever registered an ID may remove it
+      if (user && !ownsUser(user, token)) {
+        return { remainingCount: null, topics: [] };
       }
-    }
+      
+      // Remove the user, ending any chat so their match finds out
+      const topics = user ? leaveMatchmaking(data, user, reason) : [];
+      
+      return { remainingCount: data.lookingUsers.length, topics };
+    }, ({ topics }) => topics);
     
-    // Remove the user
-    lookingUsers = lookingUsers.filter(user => user.id !== id);
+    if (remainingCount === null) {
+      console.log(`[Matchmaking API] Rejected unauthenticated removal of user ${id.substring(0, 6)}...`);
+      return unauthorizedResponse();
+    }
     
     return NextResponse.json({
       success: true,
       removedId: id,
-      remainingCount: lookingUsers.length
+      remainingCount
     });
   } catch (error) {
     console.error('Error in matchmaking DELETE:', error);
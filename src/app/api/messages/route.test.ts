@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStore, getStore, setStore } from '../../../lib/store';
+import { resetRateLimits } from '../../../lib/rateLimit';
+import { POST as register } from '../matchmaking/route';
+import { GET as openStream } from '../stream/route';
+import { GET, POST } from './route';
+
+// Stands in for a NIP-44 payload; the server only checks that content looks like one
+const CIPHERTEXT = 'A'.repeat(200);
+
+type Chat = { chatSessionId: string; tokens: Record<string, string> };
+
+// Register two users, who are matched with each other
+const startChat = async (): Promise<Chat> => {
+  const tokens: Record<string, string> = {};
+  for (const id of ['alice', 'bob']) {
+    const response = await register(new Request('http://localhost/api/matchmaking', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id, pubkey: id.padEnd(64, '0'), sessionId: `session-${id}`, browserId: `browser-${id}` }),
+    }));
+    tokens[id] = (await response.json()).token;
+  }
+
+  const chatSessionId = await getStore().read(data => data.lookingUsers.find(user => user.id === 'alice')!.chatSessionId!);
+  return { chatSessionId, tokens };
+};
+
+const send = async ({ chatSessionId, tokens }: Chat, id: string) => {
+  const response = await POST(new Request('http://localhost/api/messages', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${tokens.alice}` },
+    body: JSON.stringify({ id, content: CIPHERTEXT, senderId: 'alice', receiverId: 'bob', chatSessionId }),
+  }));
+  return { status: response.status, body: await response.json() };
+};
+
+const poll = async ({ chatSessionId, tokens }: Chat, since: number) => {
+  const response = await GET(new Request(
+    `http://localhost/api/messages?userId=bob&chatSessionId=${chatSessionId}&since=${since}`,
+    { headers: { Authorization: `Bearer ${tokens.bob}` } }
+  ));
+  return response.json();
+};
+
+// Read the first `message` event a stream sends, then close it
+const readFirstMessageEvent = async ({ chatSessionId, tokens }: Chat, lastEventId: string) => {
+  const abort = new AbortController();
+  const response = await openStream(new Request(
+    `http://localhost/api/stream?userId=bob&chatSessionId=${chatSessionId}&token=${tokens.bob}`,
+    { headers: { 'Last-Event-ID': lastEventId }, signal: abort.signal }
+  ));
+
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  while (!text.includes('event: message')) {
+    const { value } = await reader.read();
+    text += decoder.decode(value);
+  }
+  abort.abort();
+
+  const event = text.split('\n\n').find(block => block.includes('event: message'))!;
+  const id = event.match(/^id: (\d+)$/m)![1];
+  const data = JSON.parse(event.match(/^data: (.*)$/m)![1]);
+  return { id: Number(id), messageIds: data.messages.map((message: { id: string }) => message.id) };
+};
+
+beforeEach(() => {
+  setStore(createMemoryStore());
+  resetRateLimits();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('message cursors', () => {
+  it('stores a resent message once, so pollers see it once', async () => {
+    const chat = await startChat();
+
+    const first = await send(chat, 'message-1');
+    const resend = await send(chat, 'message-1');
+    await send(chat, 'message-2');
+
+    expect(resend.status).toBe(200);
+    expect(resend.body.message).toEqual(first.body.message);
+
+    const { messages, nextCursor } = await poll(chat, 0);
+    expect(messages.map((message: { id: string }) => message.id)).toEqual(['message-1', 'message-2']);
+    expect(nextCursor).toBe(2);
+
+    // A resend after the poll doesn't come round again either
+    await send(chat, 'message-2');
+    expect((await poll(chat, nextCursor)).messages).toEqual([]);
+  });
+
+  it('resumes a reconnecting event stream after Last-Event-ID', async () => {
+    const chat = await startChat();
+    await send(chat, 'message-1');
+    await send(chat, 'message-2');
+    await send(chat, 'message-3');
+
+    expect(await readFirstMessageEvent(chat, '0')).toEqual({ id: 3, messageIds: ['message-1', 'message-2', 'message-3'] });
+    expect(await readFirstMessageEvent(chat, '1')).toEqual({ id: 3, messageIds: ['message-2', 'message-3'] });
+  });
+});
@@ -1,34 +1,50 @@
 import { NextResponse } from 'next/server';
-
-// In-memory store for messages
-// This will be reset when the server restarts
-interface ChatMessage {
-  id: string;
-  content: string;
-  senderId: string;
-  receiverId: string;
-  timestamp: number;
-  chatSessionId: string; // Add session ID to track conversation
-}
+import { nip44 } from 'nostr-tools';
+import { getStore, chatTopic, ChatMessage, StoreData } from '../../../lib/store';
+import { getRequestToken, ownsUser, isInChat } from '../../../lib/matchmaking/ownership';
+import { clearTyping } from '../../../lib/matchmaking/typing';
+import { acknowledgeMessage, getReceipts } from '../../../lib/matchmaking/receipts';
+import { assignSequence, getMessagesSince, cleanupSequences } from '../../../lib/matchmaking/cursors';
+import { getPartnerLeft } from '../../../lib/matchmaking/sessions';
+import { checkRateLimit } from '../../../lib/rateLimit';
+import { getFilterConfig, MessageRejection } from '../../../lib/moderation/filters';
 
 // Keep messages for a limited time
 const MESSAGE_RETENTION_TIME = 60 * 60 * 1000; // 1 hour
 
-// Store for messages
-let messages: ChatMessage[] = [];
+// Clients encrypt content with NIP-44 v2 before sending: base64 of at least
+// version (1) + nonce (32) + length-prefixed padded ciphertext (34) + MAC (32) bytes
+const MIN_ENCRYPTED_LENGTH = 132;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+// The longest NIP-44 payload a message of maxLength characters can encrypt to
+// A UTF-16 code unit is at most 3 bytes of UTF-8, and NIP-44 pads to fixed buckets.
+const getMaxEncryptedLength = (maxLength: number) => {
+  const plaintextBytes = Math.min(maxLength * 3, 65535);
+  const payloadBytes = 1 + 32 + 2 + nip44.v2.utils.calcPaddedLen(plaintextBytes) + 32;
+  return Math.ceil(payloadBytes / 3) * 4;
+};
+
+// Check that content looks like a NIP-44 payload rather than plaintext
+const isEncryptedContent = (content: unknown): content is string => {
+  return typeof content === 'string' &&
+    content.length >= MIN_ENCRYPTED_LENGTH &&
+    BASE64_PATTERN.test(content);
+};
 
 // Clean up old messages
-const cleanupOldMessages = () => {
+const cleanupOldMessages = (data: StoreData) => {
   const now = Date.now();
-  messages = messages.filter(message => (now - message.timestamp) < MESSAGE_RETENTION_TIME);
+  data.messages = data.messages.filter(message => (now - message.timestamp) < MESSAGE_RETENTION_TIME);
+  cleanupSequences(data);
 };
 
 // Log the current state of messages
-const logMessageState = () => {
+const logMessageState = (messages: ChatMessage[]) => {
   console.log(`[Messages API] Current messages count: ${messages.length}`);
   if (messages.length > 0) {
     messages.forEach(msg => {
-      console.log(`[Messages API] Message ${msg.id}: from=${msg.senderId.substring(0, 6)}... to=${msg.receiverId.substring(0, 6)}... chatSessionId=${msg.chatSessionId} content=${msg.content.substring(0, 30)}...`);
+      console.log(`[Messages API] Message ${msg.id}: from=${msg.senderId.substring(0, 6)}... to=${msg.receiverId.substring(0, 6)}... chatSessionId=${msg.chatSessionId}`);
     });
   }
 };
@@ -40,10 +56,13 @@ export async function POST(request: Request) {
     const body = await request.json();
     const { id, content, senderId, receiverId, chatSessionId } = body;
     
+    // Throttle by the sender's token as well as the chat
+    const limited = checkRateLimit(request, { chatSessionId });
+    if (limited) return limited;
+    
     console.log(`[Messages API] Received POST request to send message: ${id}`);
     console.log(`[Messages API] From: ${senderId.substring(0, 6)}... To: ${receiverId.substring(0, 6)}...`);
     console.log(`[Messages API] Chat Session: ${chatSessionId}`);
-    console.log(`[Messages API] Content: ${content.substring(0, 30)}...`);
     
     if (!id || !content || !senderId || !receiverId || !chatSessionId) {
       console.error('[Messages API] Missing required fields in POST request');
@@ -53,8 +72,29 @@ export async function POST(request: Request) {
       );
     }
     
-    // Clean up old messages
-    cleanupOldMessages();
+    // Only ever relay ciphertext
+    if (!isEncryptedContent(content)) {
+      console.error('[Messages API] Rejected message that is not encrypted');
+      return NextResponse.json(
+        { error: 'Message content must be encrypted' },
+        { status: 400 }
+      );
+    }
+    
+    // The text can't be read here, but its length can be capped through the ciphertext
+    const { maxLength } = getFilterConfig();
+    if (content.length > getMaxEncryptedLength(maxLength)) {
+      const rejection: MessageRejection = {
+        code: 'message_rejected',
+        filter: 'max_length',
+        reason: `Messages can be at most ${maxLength} characters.`
+      };
+      console.error('[Messages API] Rejected message over the length limit');
+      return NextResponse.json(
+        { error: rejection.reason, ...rejection },
+        { status: 422 }
+      );
+    }
     
     // Create a single message entry
     const message: ChatMessage = {
@@ -66,13 +106,74 @@ export async function POST(request: Request) {
       chatSessionId
     };
     
+    const token = getRequestToken(request);
+    
     // Store the message
-    messages.push(message);    
-    console.log(`[Messages API] Added message to store. Total messages: ${messages.length}`);
+    const result = await getStore().update(data => {
+      // Only the owner of senderId may send as them
+      const sender = data.lookingUsers.find(user => user.id === senderId);
+      if (!ownsUser(sender, token)) {
+        return { status: 'unauthorized' as const };
+      }
+      
+      // And only into their own chat, to the partner they're matched with
+      if (!isInChat(sender, chatSessionId, receiverId)) {
+        return { status: 'forbidden' as const };
+      }
+      
+      // Clean up old messages
+      cleanupOldMessages(data);
+      
+      // Clients resend messages they aren't sure arrived, so keep the first copy of each ID
+      const existing = data.messages.find(m => m.id === id);
+      if (existing) {
+        return existing.senderId === senderId && existing.chatSessionId === chatSessionId
+          ? { status: 'duplicate' as const, message: existing }
+          : { status: 'conflict' as const };
+      }
+      
+      assignSequence(data, message);
+      data.messages.push(message);
+      
+      // Sending a message ends the sender's typing
+      clearTyping(data, chatSessionId, senderId);
+      
+      return { status: 'added' as const, message, totalMessages: data.messages.length };
+    }, [chatTopic(chatSessionId)]);
+    
+    if (result.status === 'unauthorized') {
+      console.error('[Messages API] Rejected message with missing or invalid sender token');
+      return NextResponse.json(
+        { error: 'Missing or invalid user token' },
+        { status: 401 }
+      );
+    }
+    
+    if (result.status === 'forbidden') {
+      console.error(`[Messages API] Rejected message from ${senderId.substring(0, 6)}... outside their chat`);
+      return NextResponse.json(
+        { error: 'Not a member of this chat' },
+        { status: 403 }
+      );
+    }
+    
+    if (result.status === 'conflict') {
+      console.error(`[Messages API] Rejected message reusing another message's ID: ${id}`);
+      return NextResponse.json(
+        { error: 'Message ID already in use' },
+        { status: 409 }
+      );
+    }
+    
+    if (result.status === 'duplicate') {
+      console.log(`[Messages API] Message ${id} was already stored, ignoring the resend`);
+    } else {
+      console.log(`[Messages API] Added message to store. Total messages: ${result.totalMessages}`);
+    }
     
-    // Return success
+    // Return success, with the stored copy for a resend
     return NextResponse.json({
-      message,
+      message: result.message,
       success: true
     });
   } catch (error) {
@@ -85,53 +186,84 @@ export async function POST(request: Request) {
 }
 
 // Route handler for getting messages
+// Poll a chat with `since` set to the last `nextCursor`, starting from 0, to get each
+// message exactly once. Cursors are sequence numbers assigned by the server, so they
+// don't depend on the browser's clock.
 export async function GET(request: Request) {
   try {
-    // Clean up old messages
-    cleanupOldMessages();
-    
     // Get query parameters
     const { searchParams } = new URL(request.url);
     const userId = searchParams.get('userId');
-    const after = searchParams.get('after');
+    const since = parseInt(searchParams.get('since') || '0', 10);
     const chatSessionId = searchParams.get('chatSessionId');
     
+    const limited = checkRateLimit(request);
+    if (limited) return limited;
+    
     console.log(`[Messages API] Received GET request for user: ${userId?.substring(0, 6)}...`);
-    console.log(`[Messages API] After timestamp: ${after || 'none'}`);
+    console.log(`[Messages API] Since cursor: ${since || 0}`);
     console.log(`[Messages API] Chat Session ID: ${chatSessionId || 'none'}`);
     
-    if (!userId) {
-      console.error('[Messages API] Missing userId in GET request');
+    if (!userId || !chatSessionId) {
+      console.error('[Messages API] Missing userId or chatSessionId in GET request');
+      return NextResponse.json(
+        { error: 'Missing required query parameters: userId, chatSessionId' },
+        { status: 400 }
+      );
+    }
+    
+    if (!Number.isInteger(since) || since < 0) {
       return NextResponse.json(
-        { error: 'Missing required query parameter: userId' },
+        { error: 'Invalid cursor' },
         { status: 400 }
       );
     }
     
-    // Find messages for this chat session
-    let userMessages = chatSessionId 
-      ? messages.filter(message => message.chatSessionId === chatSessionId)
-      : messages.filter(message => message.receiverId === userId || message.senderId === userId);
+    const token = getRequestToken(request);
+    
+    const result = await getStore().update(data => {
+      // Clean up old messages
+      cleanupOldMessages(data);
       
-    console.log(`[Messages API] Found ${userMessages.length} messages in the specified chat session`);
-    
-    // If after timestamp is provided, only return messages after that time
-    if (after) {
-      const afterTimestamp = parseInt(after, 10);
-      if (!isNaN(afterTimestamp)) {
-        const beforeFilter = userMessages.length;
-        userMessages = userMessages.filter(message => 
-          message.timestamp > afterTimestamp
-        );
-        console.log(`[Messages API] After filtering by timestamp, ${userMessages.length} messages remain (from ${beforeFilter})`);
-      }
+      // Only members of a chat may read it
+      const user = data.lookingUsers.find(u => u.id === userId);
+      if (!ownsUser(user, token)) return null;
+      if (!isInChat(user, chatSessionId)) return 'forbidden' as const;
+      
+      return { messages: data.messages, partnerLeft: getPartnerLeft(data, chatSessionId, userId) };
+    }, []);
+    
+    if (result === null) {
+      return NextResponse.json(
+        { error: 'Missing or invalid user token' },
+        { status: 401 }
+      );
+    }
+    
+    if (result === 'forbidden') {
+      return NextResponse.json(
+        { error: 'Not a member of this chat' },
+        { status: 403 }
+      );
     }
+    const { messages, partnerLeft } = result;
+    
+    // Find messages for this chat session after the cursor
+    const { messages: newMessages, nextCursor } = getMessagesSince(messages, chatSessionId, since);
+    
+    console.log(`[Messages API] Found ${newMessages.length} messages after cursor ${since}, next cursor ${nextCursor}`);
     
     // Log all messages for debugging
-    logMessageState();
+    logMessageState(messages);
+    
+    // Receipts cover the whole chat, since acks can arrive for messages before the cursor
+    const receipts = getReceipts(messages.filter(message => message.chatSessionId === chatSessionId), userId);
     
     return NextResponse.json({
-      messages: userMessages,
+      messages: newMessages,
+      nextCursor,
+      receipts,
+      partnerLeft: partnerLeft ? { reason: partnerLeft.reason, endedAt: partnerLeft.endedAt } : undefined,
       success: true
     });
   } catch (error) {
@@ -141,4 +273,72 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
+
+// Route handler for the receiver acknowledging messages as delivered or read
+export async function PATCH(request: Request) {
+  try {
+    const body = await request.json();
+    const { userId, chatSessionId, messageIds, status } = body;
+    
+    const limited = checkRateLimit(request, { chatSessionId });
+    if (limited) return limited;
+    
+    if (!userId || !chatSessionId || !Array.isArray(messageIds) || (status !== 'delivered' && status !== 'read')) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+    
+    const token = getRequestToken(request);
+    
+    const updated = await getStore().update(data => {
+      // Only the receiver may acknowledge their messages
+      const user = data.lookingUsers.find(u => u.id === userId);
+      if (!ownsUser(user, token)) {
+        return null;
+      }
+      
+      // In their own chat
+      if (!isInChat(user, chatSessionId)) {
+        return 'forbidden' as const;
+      }
+      
+      const ids = new Set(messageIds.filter((id: unknown) => typeof id === 'string'));
+      return data.messages
+        .filter(message =>
+          ids.has(message.id) &&
+          message.receiverId === userId &&
+          message.chatSessionId === chatSessionId
+        )
+        .filter(message => acknowledgeMessage(message, status))
+        .length;
+    }, [chatTopic(chatSessionId)]);
+    
+    if (updated === null) {
+      return NextResponse.json(
+        { error: 'Missing or invalid user token' },
+        { status: 401 }
+      );
+    }
+    
+    if (updated === 'forbidden') {
+      return NextResponse.json(
+        { error: 'Not a member of this chat' },
+        { status: 403 }
+      );
+    }
+    
+    return NextResponse.json({
+      updated,
+      success: true
+    });
+  } catch (error) {
+    console.error('Error in messages PATCH:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,38 +1,47 @@
 import { NextResponse } from 'next/server';
-
-interface Reaction {
-  messageId: string;
-  emoji: string;
-  senderId: string;
-  receiverId: string;
-  timestamp: number;
-  chatSessionId: string;
-}
-
-// In-memory storage for reactions
-// Note: In a production app, this would use a database
-const reactions: Reaction[] = [];
+import { getStore, chatTopic, Reaction } from '../../../lib/store';
+import { getRequestToken, ownsUser, isInChat } from '../../../lib/matchmaking/ownership';
+import { checkRateLimit } from '../../../lib/rateLimit';
 
 export async function POST(request: Request) {
   try {
     const body = await request.json();
     const { messageId, emoji, senderId, receiverId, chatSessionId } = body;
     
+    // Throttle by the sender's token as well as the chat
+    const limited = checkRateLimit(request, { chatSessionId });
+    if (limited) return limited;
+    
     if (!messageId || !emoji || !senderId || !receiverId || !chatSessionId) {
       return NextResponse.json({ 
         error: 'Missing required fields' 
       }, { status: 400 });
     }
     
-    // Check for duplicate reaction (don't add if already exists)
-    const duplicateReaction = reactions.find(r => 
-      r.messageId === messageId && 
-      r.emoji === emoji && 
-      r.senderId === senderId && 
-      r.chatSessionId === chatSessionId
-    );
+    const token = getRequestToken(request);
     
-    if (!duplicateReaction) {
+    const added = await getStore().update(data => {
+      // Only the owner of senderId may react as them
+      const sender = data.lookingUsers.find(user => user.id === senderId);
+      if (!ownsUser(sender, token)) {
+        return null;
+      }
+      
+      // And only in their own chat, to the partner they're matched with
+      if (!isInChat(sender, chatSessionId, receiverId)) {
+        return 'forbidden' as const;
+      }
+      
+      // Check for duplicate reaction (don't add if already exists)
+      const duplicateReaction = data.reactions.find(r => 
+        r.messageId === messageId && 
+        r.emoji === emoji && 
+        r.senderId === senderId && 
+        r.chatSessionId === chatSessionId
+      );
+      
+      if (duplicateReaction) return false;
+      
       const reaction: Reaction = {
         messageId,
         emoji,
@@ -42,8 +51,23 @@ export async function POST(request: Request) {
         chatSessionId,
       };
       
-      reactions.push(reaction);
-      
+      data.reactions.push(reaction);
+      return true;
+    }, [chatTopic(chatSessionId)]);
+    
+    if (added === null) {
+      return NextResponse.json({
+        error: 'Missing or invalid user token'
+      }, { status: 401 });
+    }
+    
+    if (added === 'forbidden') {
+      return NextResponse.json({
+        error: 'Not a member of this chat'
+      }, { status: 403 });
+    }
+    
+    if (added) {
       console.log(`Added reaction: ${emoji} to message ${messageId} in chat ${chatSessionId}`);
     } else {
       console.log(`Duplicate reaction prevented: ${emoji} to message ${messageId}`);
@@ -63,17 +87,33 @@ export async function POST(request: Request) {
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
     const chatSessionId = searchParams.get('chatSessionId');
     
-    if (!chatSessionId) {
+    const limited = checkRateLimit(request);
+    if (limited) return limited;
+    
+    if (!userId || !chatSessionId) {
       return NextResponse.json({ 
-        error: 'Missing chatSessionId parameter' 
+        error: 'Missing userId or chatSessionId parameter' 
       }, { status: 400 });
     }
     
-    const chatReactions = reactions.filter(
-      reaction => reaction.chatSessionId === chatSessionId
-    );
+    const token = getRequestToken(request);
+    
+    // Only members of a chat may read its reactions
+    const chatReactions = await getStore().read(data => {
+      const user = data.lookingUsers.find(u => u.id === userId);
+      if (!ownsUser(user, token) || !isInChat(user, chatSessionId)) return null;
+      
+      return data.reactions.filter(reaction => reaction.chatSessionId === chatSessionId);
+    });
+    
+    if (chatReactions === null) {
+      return NextResponse.json({
+        error: 'Missing or invalid user token'
+      }, { status: 401 });
+    }
     
     console.log(`Returning ${chatReactions.length} reactions for chat ${chatSessionId}`);
     
@@ -87,4 +127,4 @@ export async function GET(request: Request) {
       error: 'Internal server error'
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+} 
\ No newline at end of file
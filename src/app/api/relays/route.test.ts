@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { startLocalRelay } from '../../../../scripts/local-relay.mjs';
+import { GET } from './route';
+
+describe('GET /api/relays', () => {
+  afterEach(() => {
+    delete process.env.OMESTR_RELAYS;
+  });
+
+  it('checks the relays in OMESTR_RELAYS', async () => {
+    const relay = await startLocalRelay({ port: 0 });
+    process.env.OMESTR_RELAYS = `${relay.url}, not-a-relay`;
+
+    try {
+      const response = await GET(new Request('http://localhost/api/relays'));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.success).toBe(true);
+      expect(body.relays).toHaveLength(1);
+      expect(body.relays[0]).toMatchObject({ url: relay.url, status: 'online' });
+    } finally {
+      await relay.close();
+    }
+  });
+});
@@ -1,14 +1,32 @@
 import { NextResponse } from 'next/server';
 import { DEFAULT_RELAYS } from '../../../lib/nostr/index';
+import { checkRelayHealth } from '../../../lib/nostr/health';
+import { checkRateLimit } from '../../../lib/rateLimit';
 
-export async function GET() {
+// Health results change over time, so never prerender this route
+export const dynamic = 'force-dynamic';
+
+// Relays to check, overridable with OMESTR_RELAYS (comma-separated),
+// e.g. to point at a local stand-in relay during development
+const getRelaysToCheck = () => {
+  const configured = process.env.OMESTR_RELAYS
+    ?.split(',')
+    .map(relay => relay.trim())
+    .filter(relay => /^wss?:\/\//.test(relay));
+
+  return configured && configured.length > 0 ? configured : DEFAULT_RELAYS;
+};
+
+export async function GET(request: Request) {
+  const limited = checkRateLimit(request);
+  if (limited) return limited;
+  
   try {
-    // In a real implementation, we would ping each relay 
-    // to see if it's online, but for simplicity, we'll just return the list
-    const relays = DEFAULT_RELAYS.map(relay => ({
-      url: relay,
-      status: 'unknown' // In a real implementation, we would check if the relay is online
-    }));
+    // Each relay gets a WebSocket REQ/EOSE round trip and a NIP-11 lookup,
+    // reused for a short while so this route doesn't hammer the relays
+    const relays = await Promise.all(
+      getRelaysToCheck().map(relay => checkRelayHealth(relay))
+    );
 
     return NextResponse.json({ 
       success: true, 
@@ -21,4 +39,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+} 
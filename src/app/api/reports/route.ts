@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server';
+import { getStore, Report, ReportedMessage, StoreData } from '../../../lib/store';
+import { getBrowserKey, getRequestToken, ownsUser } from '../../../lib/matchmaking/ownership';
+import { checkRateLimit } from '../../../lib/rateLimit';
+
+const REPORT_REASONS: Report['reason'][] = ['spam', 'harassment', 'inappropriate', 'underage', 'other'];
+
+// Limits on what a report can carry
+const MAX_REPORTED_MESSAGES = 20;
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_DETAILS_LENGTH = 1000;
+
+// Oldest reports are dropped once there are this many
+const MAX_REPORTS = 1000;
+
+// Keep only well-formed messages, most recent last
+const normalizeMessages = (messages: unknown): ReportedMessage[] => {
+  if (!Array.isArray(messages)) return [];
+
+  return messages
+    .filter(message =>
+      message &&
+      (message.sender === 'reporter' || message.sender === 'reported') &&
+      typeof message.content === 'string' &&
+      typeof message.timestamp === 'number'
+    )
+    .slice(-MAX_REPORTED_MESSAGES)
+    .map(message => ({
+      sender: message.sender,
+      content: message.content.substring(0, MAX_MESSAGE_LENGTH),
+      timestamp: message.timestamp,
+    }));
+};
+
+// Find the browser behind a browserKey, among those the reporter was recently matched with
+// Clients only ever see browser keys, and a partner who left no longer has an entry to look at.
+const findRecentPartnerBrowserId = (data: StoreData, browserId: string, browserKey: unknown): string | undefined => {
+  if (typeof browserKey !== 'string') return undefined;
+
+  return data.recentPartners.find(entry =>
+    entry.browserId === browserId && getBrowserKey(entry.partnerBrowserId) === browserKey
+  )?.partnerBrowserId;
+};
+
+// Generate a random ID for a report
+const generateReportId = (): string => {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let result = '';
+  for (let i = 0; i < 16; i++) {
+    result += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return result;
+};
+
+// Route handler for reporting a chat partner
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { reporterId, reportedId, reportedPubkey, reportedBrowserKey, chatSessionId, reason, details, messages, filter } = body;
+
+    const limited = checkRateLimit(request);
+    if (limited) return limited;
+
+    if (!reporterId || !reportedId || !chatSessionId || !REPORT_REASONS.includes(reason)) {
+      console.error('[Reports API] Missing required fields in POST request');
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    const token = getRequestToken(request);
+
+    const report = await getStore().update(data => {
+      // Only the owner of reporterId may report as them
+      const reporter = data.lookingUsers.find(user => user.id === reporterId);
+      if (!reporter || !ownsUser(reporter, token)) {
+        return null;
+      }
+
+      // The reported user may already have left, in which case we go by the key and browserKey the reporter saw
+      const reported = data.lookingUsers.find(user => user.id === reportedId && user.chatSessionId === chatSessionId);
+
+      const newReport: Report = {
+        id: generateReportId(),
+        reason,
+        details: typeof details === 'string' && details.trim() ? details.trim().substring(0, MAX_DETAILS_LENGTH) : undefined,
+        reporterId,
+        reporterBrowserId: reporter.browserId,
+        reportedId,
+        reportedPubkey: reported?.pubkey || (typeof reportedPubkey === 'string' ? reportedPubkey : ''),
+        reportedBrowserId: reported?.browserId ?? findRecentPartnerBrowserId(data, reporter.browserId, reportedBrowserKey),
+        chatSessionId,
+        messages: normalizeMessages(messages),
+        filter: typeof filter === 'string' && /^[a-z_]{1,32}$/.test(filter) ? filter : undefined,
+        timestamp: Date.now(),
+      };
+
+      data.reports.push(newReport);
+      data.reports = data.reports.slice(-MAX_REPORTS);
+      return newReport;
+    }, []);
+
+    if (!report) {
+      console.error('[Reports API] Rejected report with missing or invalid reporter token');
+      return NextResponse.json(
+        { error: 'Missing or invalid user token' },
+        { status: 401 }
+      );
+    }
+
+    console.log(`[Reports API] Report ${report.id}: ${reporterId.substring(0, 6)}... reported ${reportedId.substring(0, 6)}... for ${reason}, ${report.messages.length} messages attached`);
+
+    return NextResponse.json({
+      reportId: report.id,
+      success: true
+    });
+  } catch (error) {
+    console.error('Error in reports POST:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,312 @@
+import { NextResponse } from 'next/server';
+import {
+  getStore,
+  userTopic,
+  chatTopic,
+  Store,
+  StoreTopic,
+  LookingUser,
+  ChatMessage,
+  Reaction,
+  TypingState,
+  EndedChat
+} from '../../../lib/store';
+import { findMatch, matchQueue, getPairTopics } from '../../../lib/matchmaking/matcher';
+import { toPublicUser, getRequestToken, parseToken, ownsUser, isInChat } from '../../../lib/matchmaking/ownership';
+import { isTyping, getPartnerTyping } from '../../../lib/matchmaking/typing';
+import { getReceipts } from '../../../lib/matchmaking/receipts';
+import { getMessagesSince } from '../../../lib/matchmaking/cursors';
+import { getPartnerLeft } from '../../../lib/matchmaking/sessions';
+import { markSeen } from '../../../lib/matchmaking/presence';
+import { getQueueSummary, QueueSummary } from '../../../lib/matchmaking/queue';
+import { checkRateLimit } from '../../../lib/rateLimit';
+
+// Streams must never be cached or statically rendered
+export const dynamic = 'force-dynamic';
+
+// Send a comment line periodically so proxies don't close idle streams
+const KEEP_ALIVE_INTERVAL = 15 * 1000;
+
+// How often to retry matching a waiting user, so interest matching can widen
+const MATCH_RETRY_INTERVAL = 5 * 1000;
+
+// Keep-alives from every open stream are saved together, at most this often
+const SEEN_BATCH_DELAY = 5 * 1000;
+
+// Users whose streams are still open, waiting to be marked as seen
+const seenUserIds = new Set<string>();
+let seenFlush: ReturnType<typeof setTimeout> | null = null;
+
+// Mark a user as seen in the next batch
+// Nobody follows when someone was last seen, so saving it doesn't wake any listener.
+const markSeenSoon = (store: Store, userId: string) => {
+  seenUserIds.add(userId);
+  if (seenFlush) return;
+
+  seenFlush = setTimeout(() => {
+    seenFlush = null;
+    const userIds = new Set(seenUserIds);
+    seenUserIds.clear();
+
+    store.update(data => {
+      const now = Date.now();
+      data.lookingUsers.forEach(user => {
+        if (userIds.has(user.id)) {
+          markSeen(user, now);
+        }
+      });
+    }, []).catch(error => console.error('[Stream API] Error refreshing users:', error));
+  }, SEEN_BATCH_DELAY);
+};
+
+// Snapshot of everything the stream needs for one user
+type StreamSnapshot = {
+  user?: LookingUser;
+  match?: LookingUser;
+  partner?: LookingUser;
+  messages: ChatMessage[];
+  reactions: Reaction[];
+  partnerTyping?: TypingState;
+  partnerLeft?: EndedChat;
+  queue?: QueueSummary;
+};
+
+// Route handler for the Server-Sent Events stream
+// Without chatSessionId it pushes `queue` while the user waits, and `match-found` once they're matched.
+// With chatSessionId it pushes `message`, `receipt`, `reaction`, `typing` and `partner-left` events for that chat.
+// EventSource can't set headers, so the user's token may be sent as `token` instead of a bearer header.
+export async function GET(request: Request) {
+  // Get query parameters
+  const { searchParams } = new URL(request.url);
+  const userId = searchParams.get('userId');
+  const chatSessionId = searchParams.get('chatSessionId');
+
+  // EventSource can't set headers, so the token may come in the query instead
+  const token = getRequestToken(request) ?? parseToken(searchParams.get('token'));
+
+  const limited = checkRateLimit(request, { token });
+  if (limited) return limited;
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Missing required query parameter: userId' },
+      { status: 400 }
+    );
+  }
+
+  // Only the owner of userId may follow their match, and only in their own chat
+  const authorized = await getStore().read(data => {
+    const user = data.lookingUsers.find(u => u.id === userId);
+    return ownsUser(user, token) && (!chatSessionId || isInChat(user, chatSessionId));
+  });
+
+  if (!authorized) {
+    return NextResponse.json(
+      { error: 'Missing or invalid user token' },
+      { status: 401 }
+    );
+  }
+
+  // `message` events carry the chat's message cursor as their ID, so a reconnecting
+  // EventSource resumes after the last message it got. A stream the client reopened itself
+  // can't set the header, so it sends `lastEventId` instead.
+  const lastEventId = parseInt(request.headers.get('Last-Event-ID') || searchParams.get('lastEventId') || '0', 10);
+
+  const store = getStore();
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const send = (event: string, data: unknown, id?: number) => {
+        if (closed) return;
+        const idLine = id !== undefined ? `id: ${id}\n` : '';
+        controller.enqueue(encoder.encode(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      // Track what has already been pushed so each update only sends what's new
+      let messageCursor = Number.isInteger(lastEventId) && lastEventId > 0 ? lastEventId : 0;
+      const sentReactionKeys = new Set<string>();
+      const sentReceiptKeys = new Set<string>();
+      let matchSent = false;
+      let partnerSeen = false;
+      let partnerLeftSent = false;
+      let lastTypingSent: TypingState | undefined;
+      let lastQueueSent = '';
+
+      const check = async () => {
+        const snapshot = await store.read((data): StreamSnapshot => {
+          const user = data.lookingUsers.find(u => u.id === userId);
+
+          if (!chatSessionId) {
+            const match = user && user.status === 'matched' && user.matchedWith
+              ? data.lookingUsers.find(u => u.id === user.matchedWith)
+              : undefined;
+            return { user, match, messages: [], reactions: [], queue: match ? undefined : getQueueSummary(data, userId) };
+          }
+
+          return {
+            user,
+            partner: data.lookingUsers.find(u => u.id !== userId && u.chatSessionId === chatSessionId),
+            messages: data.messages.filter(m => m.chatSessionId === chatSessionId),
+            reactions: data.reactions.filter(r => r.chatSessionId === chatSessionId),
+            partnerTyping: getPartnerTyping(data, chatSessionId, userId),
+            partnerLeft: getPartnerLeft(data, chatSessionId, userId),
+          };
+        });
+
+        if (!chatSessionId) {
+          if (snapshot.match && snapshot.match.chatSessionId && !matchSent) {
+            matchSent = true;
+            send('match-found', { match: toPublicUser(snapshot.match) });
+          }
+
+          // Only counts go out, and only when they change
+          const queue = snapshot.queue && JSON.stringify(snapshot.queue);
+          if (queue && queue !== lastQueueSent && !matchSent) {
+            lastQueueSent = queue;
+            send('queue', { queue: snapshot.queue });
+          }
+          return;
+        }
+
+        const { messages: newMessages, nextCursor } = getMessagesSince(snapshot.messages, chatSessionId, messageCursor);
+        if (newMessages.length > 0) {
+          messageCursor = nextCursor;
+          send('message', { messages: newMessages }, nextCursor);
+        }
+
+        // Receipts for our own messages, as the partner acknowledges them
+        const newReceipts = getReceipts(snapshot.messages, userId).filter(r =>
+          !sentReceiptKeys.has(`${r.messageId}:${r.status}`)
+        );
+        if (newReceipts.length > 0) {
+          newReceipts.forEach(r => sentReceiptKeys.add(`${r.messageId}:${r.status}`));
+          send('receipt', { receipts: newReceipts });
+        }
+
+        const newReactions = snapshot.reactions.filter(r =>
+          !sentReactionKeys.has(`${r.messageId}:${r.emoji}:${r.senderId}`)
+        );
+        if (newReactions.length > 0) {
+          newReactions.forEach(r => sentReactionKeys.add(`${r.messageId}:${r.emoji}:${r.senderId}`));
+          send('reaction', { reactions: newReactions });
+        }
+
+        // Pass on each new typing signal; the client expires them itself
+        const { partnerTyping } = snapshot;
+        if (partnerTyping?.timestamp !== lastTypingSent?.timestamp) {
+          const wasTyping = isTyping(lastTypingSent);
+          lastTypingSent = partnerTyping;
+          if (isTyping(partnerTyping) || wasTyping) {
+            send('typing', { typing: isTyping(partnerTyping) });
+          }
+        }
+
+        // Leaving records why; a partner who vanished without that most likely closed the tab
+        if (snapshot.partner) {
+          partnerSeen = true;
+        }
+        if ((snapshot.partnerLeft || (partnerSeen && !snapshot.partner)) && !partnerLeftSent) {
+          partnerLeftSent = true;
+          send('partner-left', {
+            chatSessionId,
+            reason: snapshot.partnerLeft?.reason ?? 'closed',
+            endedAt: snapshot.partnerLeft?.endedAt ?? Date.now()
+          });
+        }
+      };
+
+      // Coalesce bursts of store updates into one check at a time
+      let checking = false;
+      let checkAgain = false;
+      const scheduleCheck = async () => {
+        if (checking) {
+          checkAgain = true;
+          return;
+        }
+
+        checking = true;
+        try {
+          do {
+            checkAgain = false;
+            await check();
+          } while (checkAgain && !closed);
+        } catch (error) {
+          console.error('[Stream API] Error checking for updates:', error);
+        } finally {
+          checking = false;
+        }
+      };
+
+      // Only wake up for changes to this user and their chat, or to the queue while they wait
+      const topics: StoreTopic[] = chatSessionId
+        ? [userTopic(userId), chatTopic(chatSessionId)]
+        : [userTopic(userId), 'queue'];
+      const unsubscribe = store.subscribe(() => {
+        void scheduleCheck();
+      }, topics);
+
+      // An open stream means the user is still here, so keep their entry fresh
+      const keepAlive = setInterval(() => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(': keep-alive\n\n'));
+        markSeenSoon(store, userId);
+      }, KEEP_ALIVE_INTERVAL);
+
+      // Nobody else may register while this user waits, so keep trying to match them
+      // Only write once a partner has become available, e.g. as interest matching widens.
+      const matchRetry = chatSessionId ? null : setInterval(async () => {
+        if (closed || matchSent) return;
+        try {
+          const canMatch = await store.read(data => {
+            const user = data.lookingUsers.find(u => u.id === userId);
+            return !!user && user.status === 'looking' && !user.matchedWith && !!findMatch(data, user);
+          });
+          if (!canMatch || closed) return;
+
+          // Pairing changes the queue for everyone waiting
+          await store.update(data => matchQueue(data), getPairTopics);
+        } catch (error) {
+          console.error('[Stream API] Error retrying match:', error);
+        }
+      }, MATCH_RETRY_INTERVAL);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(keepAlive);
+        if (matchRetry) clearInterval(matchRetry);
+        console.log(`[Stream API] Stream closed for user ${userId.substring(0, 6)}...`);
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch (_error) {
+          // Already closed
+        }
+      });
+
+      console.log(`[Stream API] Stream opened for user ${userId.substring(0, 6)}... chatSessionId=${chatSessionId || 'none'}`);
+
+      // Send the current state straight away
+      void scheduleCheck();
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
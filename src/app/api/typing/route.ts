@@ -0,0 +1,117 @@
+import { NextResponse } from 'next/server';
+import { getStore, chatTopic } from '../../../lib/store';
+import { getRequestToken, ownsUser, isInChat } from '../../../lib/matchmaking/ownership';
+import { isTyping, getPartnerTyping, setTyping, cleanupTyping } from '../../../lib/matchmaking/typing';
+import { checkRateLimit } from '../../../lib/rateLimit';
+
+// Route handler for telling the partner we started or stopped typing
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { userId, chatSessionId, typing } = body;
+    
+    const limited = checkRateLimit(request, { chatSessionId });
+    if (limited) return limited;
+    
+    if (!userId || !chatSessionId || typeof typing !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+    
+    const token = getRequestToken(request);
+    
+    const result = await getStore().update(data => {
+      // Only the owner of userId may type as them
+      const user = data.lookingUsers.find(u => u.id === userId);
+      if (!ownsUser(user, token)) return null;
+      
+      // And only in their own chat
+      if (!isInChat(user, chatSessionId)) return 'forbidden' as const;
+      
+      cleanupTyping(data);
+      setTyping(data, chatSessionId, userId, typing);
+      return 'typing' as const;
+    }, result => result === 'typing' ? [chatTopic(chatSessionId)] : []);
+    
+    if (result === null) {
+      return NextResponse.json(
+        { error: 'Missing or invalid user token' },
+        { status: 401 }
+      );
+    }
+    
+    if (result === 'forbidden') {
+      return NextResponse.json(
+        { error: 'Not a member of this chat' },
+        { status: 403 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Error in typing POST:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Route handler for polling whether the partner is typing, when the event stream isn't available
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const chatSessionId = searchParams.get('chatSessionId');
+    
+    const limited = checkRateLimit(request, { chatSessionId });
+    if (limited) return limited;
+    
+    if (!userId || !chatSessionId) {
+      return NextResponse.json(
+        { error: 'Missing required query parameters' },
+        { status: 400 }
+      );
+    }
+    
+    const token = getRequestToken(request);
+    
+    const typing = await getStore().read(data => {
+      // Only members of a chat may watch it
+      const user = data.lookingUsers.find(u => u.id === userId);
+      if (!ownsUser(user, token)) return null;
+      if (!isInChat(user, chatSessionId)) return 'forbidden' as const;
+      
+      return isTyping(getPartnerTyping(data, chatSessionId, userId));
+    });
+    
+    if (typing === null) {
+      return NextResponse.json(
+        { error: 'Missing or invalid user token' },
+        { status: 401 }
+      );
+    }
+    
+    if (typing === 'forbidden') {
+      return NextResponse.json(
+        { error: 'Not a member of this chat' },
+        { status: 403 }
+      );
+    }
+    
+    return NextResponse.json({
+      typing,
+      success: true
+    });
+  } catch (error) {
+    console.error('Error in typing GET:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,12 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { useServerMatchmaking } from '../lib/hooks/useServerMatchmaking';
+import { useServerMatchmaking, REPORT_MESSAGE_COUNT, MessageStatus } from '../lib/hooks/useServerMatchmaking';
+import type { DisconnectReason } from '../lib/services/matchmaking';
+import { LANGUAGES, getLanguageName } from '../lib/services/language';
+import type { ReportReason } from '../lib/services/reports';
 import { useSoundEffects } from '../lib/hooks/useSoundEffects';
 import { logger } from '../lib/nostr/logger';
 import { dumpLocalStorage } from '../lib/nostr/index';
+import ConnectionDiagnostics from './ConnectionDiagnostics';
 
 // Define types for logs and storage data
 interface LogEntry {
@@ -17,13 +21,45 @@ interface MessageType {
   content: string;
   sender: 'me' | 'partner';
   timestamp: number;
+  status?: MessageStatus;
+  error?: string;
 }
 
+// How each status of our own messages is shown under them
+const STATUS_LABELS: Record<MessageStatus, { icon: string; title: string; className: string }> = {
+  pending: { icon: '🕓', title: 'Sending', className: 'text-gray-500' },
+  sent: { icon: '✓', title: 'Sent', className: 'text-gray-400' },
+  delivered: { icon: '✓✓', title: 'Delivered', className: 'text-gray-400' },
+  read: { icon: '✓✓', title: 'Read', className: 'text-blue-400' },
+  failed: { icon: '!', title: 'Not sent', className: 'text-red-400' },
+};
+
+// Why the stranger is gone, as told to the one who stayed
+const PARTNER_LEFT_REASONS: Record<DisconnectReason, string> = {
+  skipped: 'They left to chat with someone else.',
+  closed: 'They closed the chat.',
+  timed_out: 'They stopped responding.',
+  banned: 'They were removed by a moderator.',
+};
+
+// Round a wait estimate to something that doesn't pretend to be exact
+const formatWait = (seconds: number) => {
+  if (seconds < 10) return 'a few seconds';
+  if (seconds < 60) return `about ${Math.round(seconds / 10) * 10} seconds`;
+  const minutes = Math.round(seconds / 60);
+  return minutes === 1 ? 'about a minute' : `about ${minutes} minutes`;
+};
+
 export default function ChatInterface() {
   const [inputMessage, setInputMessage] = useState('');
   const [showDebug, setShowDebug] = useState(false);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [storageData, setStorageData] = useState<Record<string, unknown> | null>(null);
+  const [interestInput, setInterestInput] = useState('');
+  const [showReport, setShowReport] = useState(false);
+  const [reportReason, setReportReason] = useState<ReportReason>('spam');
+  const [reportDetails, setReportDetails] = useState('');
+  const [includeMessages, setIncludeMessages] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { 
     status, 
@@ -32,11 +68,21 @@ export default function ChatInterface() {
     error,
     startLooking, 
     sendMessage, 
+    retryMessage,
     skipToNext,
+    reportAndBlock,
     resetAll,
     formattedDuration,
     messageReactions,
-    sendReaction
+    sendReaction,
+    interests,
+    updateInterests,
+    languagePreference,
+    updateLanguage,
+    partnerTyping,
+    notifyTyping,
+    partnerLeft,
+    queue
   } = useServerMatchmaking();
   
   // Initialize sound effects hook
@@ -50,12 +96,13 @@ export default function ChatInterface() {
   const [activeEmojiPicker, setActiveEmojiPicker] = useState<string | null>(null);
 
   // Start looking for a chat partner when the component mounts
+  // After a partner leaves, wait for the user to ask for a new one
   useEffect(() => {
-    if (status === 'disconnected') {
+    if (status === 'disconnected' && !partnerLeft) {
       logger.info('Starting to look for chat partners');
       startLooking();
     }
-  }, [status, startLooking]);
+  }, [status, partnerLeft, startLooking]);
 
   // Scroll to bottom of messages when messages change
   useEffect(() => {
@@ -130,6 +177,38 @@ export default function ChatInterface() {
     }
   };
   
+  // Add comma-separated interests typed into the interests box
+  const handleAddInterest = (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = interestInput.split(',').map(tag => tag.trim()).filter(Boolean);
+    if (added.length === 0) return;
+    
+    updateInterests([...interests, ...added]);
+    setInterestInput('');
+  };
+  
+  const reportReasons: { value: ReportReason; label: string }[] = [
+    { value: 'spam', label: 'Spam or advertising' },
+    { value: 'harassment', label: 'Harassment or hate' },
+    { value: 'inappropriate', label: 'Sexual or inappropriate content' },
+    { value: 'underage', label: 'Appears to be underage' },
+    { value: 'other', label: 'Something else' },
+  ];
+  
+  const closeReport = () => {
+    setShowReport(false);
+    setReportReason('spam');
+    setReportDetails('');
+    setIncludeMessages(false);
+  };
+  
+  // Block and report the current stranger, then move on to the next one
+  const handleSubmitReport = (e: React.FormEvent) => {
+    e.preventDefault();
+    reportAndBlock(reportReason, reportDetails, includeMessages);
+    closeReport();
+  };
+  
   const handleReactionClick = (messageId: string, emoji: string) => {
     sendReaction(messageId, emoji);
     setActiveEmojiPicker(null);
@@ -140,6 +219,8 @@ export default function ChatInterface() {
   // Message component with reactions
   const MessageItem = ({ message }: { message: MessageType }) => {
     const isMe = message.sender === 'me';
+    const failed = message.status === 'failed' || !!message.error;
+    const statusLabel = isMe && message.status ? STATUS_LABELS[message.status] : null;
     const reactions = messageReactions[message.id] || [];
     
     // Always display messages from "me" on the right and "partner" on the left
@@ -156,10 +237,27 @@ export default function ChatInterface() {
         <div className="flex flex-col max-w-[80%]">
           <div className={`rounded-lg px-4 py-2 break-words ${
             messageBgColor
-          } text-white`}>
+          } text-white ${failed ? 'opacity-50' : ''}`}>
             {message.content}
           </div>
           
+          {/* Rejected by a content filter, or the server couldn't be reached */}
+          {failed ? (
+            <div className="text-xs text-red-400 mt-1 text-right">
+              Message not sent{message.error ? `: ${message.error}` : ''}
+              <button
+                onClick={() => retryMessage(message.id)}
+                className="ml-2 underline hover:text-red-300"
+              >
+                Retry
+              </button>
+            </div>
+          ) : statusLabel && (
+            <div className={`text-xs mt-1 text-right ${statusLabel.className}`} title={statusLabel.title}>
+              {statusLabel.icon}
+            </div>
+          )}
+          
           {/* Display reactions */}
           {reactions.length > 0 && (
             <div className={`flex mt-1 space-x-1 ${messagePosition} flex-wrap`}>
@@ -273,6 +371,15 @@ export default function ChatInterface() {
             </div>
           </div>
           
+          <div className="mb-4">
+            <ConnectionDiagnostics
+              onClearStorage={handleClearStorage}
+              onRestartMatchmaking={skipToNext}
+              connectionStatus={status}
+              browserId={window.localStorage.getItem('omestr_browser_instance_id') || ''}
+            />
+          </div>
+          
           <div className="mb-4">
             <h4 className="font-semibold border-b border-gray-700 pb-1 mb-2">Session Info</h4>
             <pre className="bg-gray-900 p-2 rounded overflow-auto whitespace-pre-wrap">
@@ -340,6 +447,17 @@ export default function ChatInterface() {
         </div>
       )}
       
+      {/* Partner's language and shared interests banner */}
+      {status === 'connected' && (partner?.language || (partner?.sharedInterests && partner.sharedInterests.length > 0)) && (
+        <div className="bg-purple-900/40 px-4 py-2 text-center text-sm text-purple-200 border-b border-purple-800/50">
+          {partner.language && <span>Stranger speaks {getLanguageName(partner.language)}</span>}
+          {partner.language && partner.sharedInterests && partner.sharedInterests.length > 0 && ' · '}
+          {partner.sharedInterests && partner.sharedInterests.length > 0 && (
+            <span>You both like: {partner.sharedInterests.join(', ')}</span>
+          )}
+        </div>
+      )}
+      
       {/* Chat Area */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {messages.length === 0 && status === 'connected' && (
@@ -354,6 +472,81 @@ export default function ChatInterface() {
           <div className="text-center text-gray-400 mt-10">
             <p className="text-lg font-semibold text-yellow-400">Looking for someone to chat with...</p>
             
+            {queue && (
+              <div className="mt-3 text-sm">
+                {queue.position !== null && (
+                  <p>You&apos;re number {queue.position} in line</p>
+                )}
+                <p className="text-gray-500">
+                  {queue.looking} looking · {queue.chatting} chatting
+                </p>
+                <p className="text-gray-500">
+                  Estimated wait: {queue.estimatedWait !== null ? formatWait(queue.estimatedWait) : 'unknown'}
+                </p>
+              </div>
+            )}
+            
+            <div className="mt-6 p-4 bg-gray-800 rounded-lg max-w-md mx-auto">
+              <p className="font-semibold mb-2 text-purple-400">Your language</p>
+              <select
+                value={languagePreference.language}
+                onChange={(e) => updateLanguage({ ...languagePreference, language: e.target.value })}
+                className="bg-gray-700 text-white text-sm px-3 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {(LANGUAGES.includes(languagePreference.language) ? LANGUAGES : [languagePreference.language, ...LANGUAGES]).map(language => (
+                  <option key={language} value={language}>
+                    {getLanguageName(language)}
+                  </option>
+                ))}
+              </select>
+              <label className="mt-3 flex items-center justify-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={languagePreference.anyLanguage}
+                  onChange={(e) => updateLanguage({ ...languagePreference, anyLanguage: e.target.checked })}
+                />
+                <span>Match me with any language</span>
+              </label>
+            </div>
+            
+            <div className="mt-6 p-4 bg-gray-800 rounded-lg max-w-md mx-auto">
+              <p className="font-semibold mb-2 text-purple-400">Your interests</p>
+              <p className="text-xs text-gray-500 mb-3">
+                We&apos;ll try to find someone who likes the same things first, then anyone.
+              </p>
+              {interests.length > 0 && (
+                <div className="flex flex-wrap justify-center gap-2 mb-3">
+                  {interests.map(interest => (
+                    <span key={interest} className="bg-purple-900/50 text-purple-200 text-xs rounded-full px-3 py-1">
+                      {interest}
+                      <button
+                        onClick={() => updateInterests(interests.filter(tag => tag !== interest))}
+                        className="ml-2 text-purple-400 hover:text-white"
+                        aria-label={`Remove ${interest}`}
+                      >
+                        ✕
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <form onSubmit={handleAddInterest} className="flex space-x-2">
+                <input
+                  type="text"
+                  value={interestInput}
+                  onChange={(e) => setInterestInput(e.target.value)}
+                  placeholder="e.g. music, bitcoin, hiking"
+                  className="flex-1 bg-gray-700 text-white text-sm px-3 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                <button
+                  type="submit"
+                  className="bg-purple-600 hover:bg-purple-700 text-white text-sm px-4 py-2 rounded-md"
+                >
+                  Add
+                </button>
+              </form>
+            </div>
+            
             <div className="mt-6 p-4 bg-gray-800 rounded-lg max-w-md mx-auto">
               <p className="font-semibold mb-2 text-purple-400">How to test Omestr:</p>
               <ol className="text-left list-decimal pl-6 space-y-2">
@@ -368,8 +561,8 @@ export default function ChatInterface() {
               </p>
               <div className="mt-4 p-2 bg-gray-700 rounded-md">
                 <p className="text-xs text-yellow-300">
-                  Note: All messages are encrypted end-to-end using the Nostr protocol (NIP-04),
-                  and communications happen through decentralized relays rather than a central server.
+                  Note: All messages are encrypted end-to-end (NIP-44) with keys generated for this session.
+                  Only you and the stranger can read them; the server just passes along ciphertext.
                 </p>
               </div>
               <div className="mt-4 p-2 bg-gray-700 rounded-md">
@@ -395,9 +588,42 @@ export default function ChatInterface() {
         {messages.map((message) => (
           <MessageItem key={message.id} message={message} />
         ))}
+        
+        {partnerLeft && (
+          <div className="text-center text-gray-400 py-4">
+            <p className="text-lg font-semibold text-red-400">Stranger has disconnected</p>
+            <p className="mt-1 text-sm">{PARTNER_LEFT_REASONS[partnerLeft.reason]}</p>
+            <button
+              onClick={startLooking}
+              className="mt-3 bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 font-medium"
+            >
+              Find new stranger
+            </button>
+            <button
+              onClick={() => setShowReport(true)}
+              className="mt-3 ml-3 bg-red-600 hover:bg-red-700 text-white px-6 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 font-medium"
+            >
+              Report &amp; Block
+            </button>
+          </div>
+        )}
         <div ref={messagesEndRef} />
       </div>
 
+      {/* Typing indicator */}
+      {status === 'connected' && partnerTyping && (
+        <div className="px-4 py-1 text-sm text-gray-400 italic bg-gray-900">
+          Stranger is typing…
+        </div>
+      )}
+
+      {/* Error banner */}
+      {error && (
+        <div className="bg-red-900/40 px-4 py-2 text-center text-sm text-red-200 border-t border-red-800/50">
+          {error}
+        </div>
+      )}
+
       {/* Input Area */}
       <div className="bg-gray-800 p-4 border-t border-gray-700">
         {status === 'connected' ? (
@@ -405,7 +631,10 @@ export default function ChatInterface() {
             <input
               type="text"
               value={inputMessage}
-              onChange={(e) => setInputMessage(e.target.value)}
+              onChange={(e) => {
+                setInputMessage(e.target.value);
+                notifyTyping();
+              }}
               placeholder="Type a message..."
               className="flex-1 bg-gray-700 text-white px-4 py-3 rounded-l-md focus:outline-none focus:ring-2 focus:ring-purple-500"
               autoFocus
@@ -428,21 +657,95 @@ export default function ChatInterface() {
               } text-white px-8 py-3 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 font-medium`}
               disabled={status === 'looking'}
             >
-              {status === 'looking' ? 'Finding a stranger...' : 'Start Chatting'}
+              {status === 'looking' ? 'Finding a stranger...' : partnerLeft ? 'Find new stranger' : 'Start Chatting'}
             </button>
           </div>
         )}
       </div>
 
-      {/* Footer with Next button */}
+      {/* Footer with Next and Report & Block buttons */}
       {status === 'connected' && (
-        <div className="bg-gray-800 p-3 border-t border-gray-700 flex justify-center">
+        <div className="bg-gray-800 p-3 border-t border-gray-700 flex justify-center space-x-3">
           <button
             onClick={skipToNext}
             className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 font-medium"
           >
             Next Stranger
           </button>
+          <button
+            onClick={() => setShowReport(true)}
+            className="bg-red-600 hover:bg-red-700 text-white px-6 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 font-medium"
+          >
+            Report &amp; Block
+          </button>
+        </div>
+      )}
+
+      {/* Report & Block dialog */}
+      {showReport && (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
+          <form
+            onSubmit={handleSubmitReport}
+            className="bg-gray-800 border border-gray-700 rounded-lg p-5 w-full max-w-md text-gray-200"
+          >
+            <h2 className="text-lg font-bold mb-1">Report &amp; Block</h2>
+            <p className="text-sm text-gray-400 mb-4">
+              You won&apos;t be matched with this stranger again, and the report is sent to the server&apos;s moderators.
+            </p>
+            
+            <fieldset className="mb-4 space-y-2">
+              <legend className="text-sm font-medium mb-2">Why are you reporting them?</legend>
+              {reportReasons.map(reason => (
+                <label key={reason.value} className="flex items-center space-x-2 text-sm">
+                  <input
+                    type="radio"
+                    name="report-reason"
+                    value={reason.value}
+                    checked={reportReason === reason.value}
+                    onChange={() => setReportReason(reason.value)}
+                  />
+                  <span>{reason.label}</span>
+                </label>
+              ))}
+            </fieldset>
+            
+            <textarea
+              value={reportDetails}
+              onChange={(e) => setReportDetails(e.target.value)}
+              placeholder="Anything else we should know? (optional)"
+              maxLength={1000}
+              rows={3}
+              className="w-full bg-gray-700 text-white border border-gray-600 rounded-md px-3 py-2 text-sm mb-3 focus:outline-none focus:ring-2 focus:ring-red-500"
+            />
+            
+            <label className="flex items-start space-x-2 text-sm mb-5">
+              <input
+                type="checkbox"
+                checked={includeMessages}
+                onChange={(e) => setIncludeMessages(e.target.checked)}
+                className="mt-1"
+              />
+              <span>
+                Include the last {REPORT_MESSAGE_COUNT} messages of this chat. They are decrypted in your browser and sent with the report.
+              </span>
+            </label>
+            
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={closeReport}
+                className="px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 rounded-md bg-red-600 hover:bg-red-700 text-white text-sm font-medium"
+              >
+                Report &amp; Block
+              </button>
+            </div>
+          </form>
         </div>
       )}
     </div>
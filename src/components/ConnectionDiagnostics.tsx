@@ -1,13 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { DEFAULT_RELAYS } from '../lib/nostr';
 import { logger } from '../lib/nostr/logger';
+import { useRelaySettings } from '../lib/nostr/useRelaySettings';
 
 interface ConnectionDiagnosticsProps {
   onClearStorage: () => void;
   onRestartMatchmaking: () => void;
   connectionStatus: string;
   browserId: string;
-  connectedRelays: Set<string>;
+  // Relays the page has open connections to, when it chats over relays
+  connectedRelays?: Set<string>;
 }
 
 const ConnectionDiagnostics: React.FC<ConnectionDiagnosticsProps> = ({
@@ -21,13 +22,46 @@ const ConnectionDiagnostics: React.FC<ConnectionDiagnosticsProps> = ({
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [showInstructions, setShowInstructions] = useState(false);
   const [testResult, setTestResult] = useState<{success: boolean; message: string} | null>(null);
+  const [newRelayUrl, setNewRelayUrl] = useState('');
+  const [importPubkey, setImportPubkey] = useState('');
+  const [relayError, setRelayError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  
+  const { relays, addRelay, removeRelay, updateRelay, resetRelays, importRelayList } = useRelaySettings();
+  const relayUrls = relays.map(relay => relay.url);
+  
+  const handleAddRelay = () => {
+    try {
+      addRelay(newRelayUrl);
+      setNewRelayUrl('');
+      setRelayError(null);
+    } catch (error) {
+      setRelayError(error instanceof Error ? error.message : 'Invalid relay URL');
+    }
+  };
+  
+  // Replace the relay list with a NIP-65 list published by the given pubkey
+  const handleImportRelays = async () => {
+    setImporting(true);
+    setRelayError(null);
+    
+    try {
+      const imported = await importRelayList(importPubkey);
+      setImportPubkey('');
+      setTestResult({ success: true, message: `Imported ${imported.length} relays from NIP-65 list.` });
+    } catch (error) {
+      setRelayError(error instanceof Error ? error.message : 'Failed to import relay list');
+    } finally {
+      setImporting(false);
+    }
+  };
   
   // Ping relays to check connectivity
   const pingRelays = async () => {
     const results: Record<string, { status: string; latency?: number }> = {};
     
     // Test each relay
-    for (const relay of DEFAULT_RELAYS) {
+    for (const relay of relayUrls) {
       try {
         results[relay] = { status: 'connecting' };
         setPingResults({ ...results });
@@ -75,7 +109,7 @@ const ConnectionDiagnostics: React.FC<ConnectionDiagnosticsProps> = ({
     try {
       // Test 1: Ensure we can connect to relays
       let relaySuccess = false;
-      for (const relay of DEFAULT_RELAYS) {
+      for (const relay of relayUrls) {
         try {
           const ws = new WebSocket(relay);
           await new Promise<void>((resolve, reject) => {
@@ -249,12 +283,14 @@ const ConnectionDiagnostics: React.FC<ConnectionDiagnosticsProps> = ({
           </span>
         </div>
         
-        <div className="flex justify-between mb-2">
-          <span className="text-sm font-semibold text-gray-300">Connected Relays:</span>
-          <span className="text-sm font-mono text-blue-300">
-            {connectedRelays.size} / {DEFAULT_RELAYS.length}
-          </span>
-        </div>
+        {connectedRelays && (
+          <div className="flex justify-between mb-2">
+            <span className="text-sm font-semibold text-gray-300">Connected Relays:</span>
+            <span className="text-sm font-mono text-blue-300">
+              {connectedRelays.size} / {relays.length}
+            </span>
+          </div>
+        )}
       </div>
       
       <div className="mb-4">
@@ -269,11 +305,26 @@ const ConnectionDiagnostics: React.FC<ConnectionDiagnosticsProps> = ({
         </div>
         
         <div className="space-y-2 max-h-40 overflow-y-auto text-xs">
-          {DEFAULT_RELAYS.map(relay => (
+          {relays.map(({ url: relay, read, write }) => (
             <div key={relay} className="flex justify-between items-center bg-gray-800/50 p-2 rounded">
               <span className="font-mono truncate max-w-[180px]">{relay}</span>
               <div className="flex items-center space-x-2">
-                {showAdvanced && connectedRelays.has(relay) && (
+                <button
+                  onClick={() => updateRelay(relay, { read: !read })}
+                  title="Subscribe to events from this relay"
+                  className={`px-1.5 py-0.5 rounded-full text-[10px] ${read ? 'bg-blue-900/50 text-blue-300' : 'bg-gray-700 text-gray-500'}`}
+                >
+                  Read
+                </button>
+                <button
+                  onClick={() => updateRelay(relay, { write: !write })}
+                  title="Publish events to this relay"
+                  className={`px-1.5 py-0.5 rounded-full text-[10px] ${write ? 'bg-purple-900/50 text-purple-300' : 'bg-gray-700 text-gray-500'}`}
+                >
+                  Write
+                </button>
+                
+                {showAdvanced && connectedRelays?.has(relay) && (
                   <span className="px-1.5 py-0.5 bg-green-900/30 text-green-400 rounded-full text-[10px]">
                     Active
                   </span>
@@ -291,10 +342,67 @@ const ConnectionDiagnostics: React.FC<ConnectionDiagnosticsProps> = ({
                     {pingResults[relay].latency}ms
                   </span>
                 )}
+                
+                <button
+                  onClick={() => removeRelay(relay)}
+                  disabled={relays.length <= 1}
+                  title="Remove relay"
+                  className="text-gray-400 hover:text-red-400 disabled:opacity-30"
+                >
+                  ✕
+                </button>
               </div>
             </div>
           ))}
         </div>
+        
+        <div className="mt-2 space-y-2 text-xs">
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={newRelayUrl}
+              onChange={(e) => setNewRelayUrl(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddRelay()}
+              placeholder="wss://relay.example.com"
+              className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 font-mono"
+            />
+            <button
+              onClick={handleAddRelay}
+              disabled={!newRelayUrl.trim()}
+              className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+          
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={importPubkey}
+              onChange={(e) => setImportPubkey(e.target.value)}
+              placeholder="npub or hex pubkey to import NIP-65 relays"
+              className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 font-mono"
+            />
+            <button
+              onClick={handleImportRelays}
+              disabled={!importPubkey.trim() || importing}
+              className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+            >
+              {importing ? 'Importing...' : 'Import'}
+            </button>
+          </div>
+          
+          {relayError && (
+            <p className="text-red-400">{relayError}</p>
+          )}
+          
+          <button
+            onClick={resetRelays}
+            className="text-gray-400 hover:text-gray-200 underline"
+          >
+            Reset to default relays
+          </button>
+        </div>
       </div>
       
       <div className="mb-4">
@@ -362,4 +470,4 @@ const ConnectionDiagnostics: React.FC<ConnectionDiagnosticsProps> = ({
   );
 };
 
-export default ConnectionDiagnostics; 
\ No newline at end of file
+export default ConnectionDiagnostics; 
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { useState, useEffect, useRef } from 'react';
+
+// How far one of our messages has got; partner messages have no status
+export type MessageStatus = 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export type AckStatus = 'delivered' | 'read';
+
+// Receipts only ever move a message forwards
+const STATUS_ORDER: MessageStatus[] = ['pending', 'sent', 'delivered', 'read'];
+
+export const advanceStatus = (current: MessageStatus | undefined, next: MessageStatus): MessageStatus =>
+  current && STATUS_ORDER.indexOf(current) > STATUS_ORDER.indexOf(next) ? current : next;
+
+// Move our messages on as the partner acknowledges them
+export const applyReceiptStatuses = <T extends { id: string; sender: 'me' | 'partner'; status?: MessageStatus }>(
+  messages: T[],
+  receipts: Map<string, MessageStatus>
+): T[] => messages.map(msg => {
+  const receipt = receipts.get(msg.id);
+  if (!receipt || msg.sender !== 'me' || msg.status === 'failed') return msg;
+
+  const status = advanceStatus(msg.status, receipt);
+  return status === msg.status ? msg : { ...msg, status };
+});
+
+// Acknowledge the partner's messages for whichever transport the chat uses
+// They count as delivered when they arrive, and read once the page is on screen.
+// `chatId` changes when a new chat starts, which forgets what we've acknowledged.
+export function useMessageReceipts(
+  messages: { id: string; sender: 'me' | 'partner' }[],
+  chatId: string | null | undefined,
+  acknowledge: (messageIds: string[], status: AckStatus) => void
+) {
+  const acknowledgeRef = useRef(acknowledge);
+  acknowledgeRef.current = acknowledge;
+
+  const acknowledgedRef = useRef<Map<string, AckStatus>>(new Map());
+
+  const [pageVisible, setPageVisible] = useState(
+    typeof document === 'undefined' || document.visibilityState === 'visible'
+  );
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setPageVisible(document.visibilityState === 'visible');
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  useEffect(() => {
+    acknowledgedRef.current.clear();
+  }, [chatId]);
+
+  useEffect(() => {
+    if (!chatId) return;
+
+    const status: AckStatus = pageVisible ? 'read' : 'delivered';
+    const unacknowledged = messages.filter(msg => {
+      if (msg.sender !== 'partner') return false;
+      const acknowledged = acknowledgedRef.current.get(msg.id);
+      return status === 'read' ? acknowledged !== 'read' : !acknowledged;
+    });
+    if (unacknowledged.length === 0) return;
+
+    unacknowledged.forEach(msg => acknowledgedRef.current.set(msg.id, status));
+    acknowledgeRef.current(unacknowledged.map(msg => msg.id), status);
+  }, [messages, pageVisible, chatId]);
+}
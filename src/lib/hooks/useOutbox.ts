@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { Outbox, OutboxUpdate } from '../services/outbox';
+
+// Keep a chat's outbox moving: retry when the backoff runs out, and straight away when
+// the browser comes back online. `onUpdates` hears what became of each attempted message.
+export function useOutbox<T>(
+  outbox: Outbox<T>,
+  chatSessionId: string | null | undefined,
+  onUpdates: (updates: OutboxUpdate[]) => void
+) {
+  const onUpdatesRef = useRef(onUpdates);
+  onUpdatesRef.current = onUpdates;
+
+  const retryTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Attempt whatever is due, or everything with force
+  const flush = useCallback(async (force: boolean = false) => {
+    if (!chatSessionId) return;
+
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+
+    const updates = await outbox.flush(chatSessionId, force);
+    if (updates.length > 0) {
+      onUpdatesRef.current(updates);
+    }
+
+    // Wake up for the next entry that's waiting out its backoff
+    const nextAttemptAt = outbox.nextAttemptAt(chatSessionId);
+    if (nextAttemptAt !== null && !retryTimerRef.current) {
+      retryTimerRef.current = setTimeout(() => {
+        retryTimerRef.current = null;
+        flush();
+      }, Math.max(nextAttemptAt - Date.now(), 0));
+    }
+  }, [outbox, chatSessionId]);
+
+  // Add a message and try to send it, along with anything still waiting ahead of it
+  const send = useCallback((id: string, payload: T) => {
+    if (!chatSessionId) return Promise.resolve();
+
+    outbox.add(chatSessionId, id, payload);
+    return flush(true);
+  }, [outbox, chatSessionId, flush]);
+
+  useEffect(() => {
+    const handleOnline = () => flush(true);
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [flush]);
+
+  // Pick up anything left over, e.g. if the chat remounted, and drop outboxes of old chats
+  useEffect(() => {
+    outbox.prune();
+    flush();
+
+    return () => {
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current);
+        retryTimerRef.current = null;
+      }
+    };
+  }, [outbox, flush]);
+
+  return { send, flush };
+}
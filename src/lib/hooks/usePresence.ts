@@ -0,0 +1,55 @@
+import { useEffect, useRef } from 'react';
+import { sendHeartbeat, sendLeaveBeacon } from '../services/presence';
+
+// The server removes users it hasn't heard from in a minute, so this leaves room for a few misses
+const HEARTBEAT_INTERVAL = 15 * 1000;
+
+// Keep our matchmaking entry alive while `active`, and leave when the page goes away
+// Heartbeats also go out whenever the page is hidden or shown, since hidden pages' timers
+// are throttled. `onExpired` is called if the server removed us anyway, e.g. after the
+// computer slept.
+export function usePresence(
+  userId: string | null | undefined,
+  active: boolean,
+  onExpired: () => void
+) {
+  const onExpiredRef = useRef(onExpired);
+  onExpiredRef.current = onExpired;
+
+  useEffect(() => {
+    if (!userId || !active) return;
+
+    let stopped = false;
+    const beat = async () => {
+      const response = await sendHeartbeat(userId);
+      if (response.expired && !stopped) {
+        onExpiredRef.current();
+      }
+    };
+
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL);
+
+    // Coming back from the back/forward cache counts as being shown
+    const handlePageShow = (event: PageTransitionEvent) => {
+      if (event.persisted) beat();
+    };
+
+    document.addEventListener('visibilitychange', beat);
+    window.addEventListener('pageshow', handlePageShow);
+    return () => {
+      stopped = true;
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', beat);
+      window.removeEventListener('pageshow', handlePageShow);
+    };
+  }, [userId, active]);
+
+  // A fetch on the way out may be cancelled, so leave with a beacon
+  useEffect(() => {
+    if (!userId) return;
+
+    const handlePageHide = () => sendLeaveBeacon(userId);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [userId]);
+}
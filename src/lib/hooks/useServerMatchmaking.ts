@@ -1,27 +1,53 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { generateRandomString } from '../nostr';
+import { generateKeypair, generateRandomString } from '../nostr';
 import { logger } from '../nostr/logger';
 import { 
   generateUserId, 
   registerLookingUser, 
   checkForMatch, 
   removeUser,
-  MatchUser
+  MatchUser,
+  PartnerLeft,
+  QueueSummary
 } from '../services/matchmaking';
 import {
-  sendMessage as apiSendMessage,
+  createOutgoingMessage,
+  messageOutbox,
   checkForMessages,
-  Message as ApiMessage
+  decryptMessageContent,
+  acknowledgeMessages,
+  Message as ApiMessage,
+  MessageReceipt,
+  MessageKeys,
+  Reaction as ApiReaction,
+  RateLimitError,
+  getRateLimitError
 } from '../services/messaging';
+import { isEventStreamSupported, openEventStream } from '../services/stream';
+import { getAuthHeaders } from '../services/userToken';
+import { addToBlocklist } from '../services/blocklist';
+import { getLanguagePreference, setLanguagePreference, LanguagePreference } from '../services/language';
+import { reportUser, ReportReason } from '../services/reports';
+import { runFilters, getTrippedFilters } from '../moderation/filters';
+import { sendTypingSignal, checkPartnerTyping } from '../services/typing';
+import { useTypingIndicator } from './useTypingIndicator';
+import { useMessageReceipts, advanceStatus, applyReceiptStatuses, MessageStatus } from './useMessageReceipts';
+import { useOutbox } from './useOutbox';
+import { usePresence } from './usePresence';
+import type { OutboxUpdate } from '../services/outbox';
 
 // Types
 export type ConnectionStatus = 'disconnected' | 'looking' | 'connected';
 
+export type { MessageStatus };
+
 export type ChatMessage = {
   id: string;
   content: string;
   sender: 'me' | 'partner';
   timestamp: number;
+  status?: MessageStatus;
+  error?: string; // Why our message wasn't sent, if a content filter or the server rejected it
 };
 
 export type MessageReaction = {
@@ -49,6 +75,38 @@ const getBrowserInstanceId = (): string => {
   return instanceId;
 };
 
+// How many of the latest messages a report can include
+export const REPORT_MESSAGE_COUNT = 20;
+
+// Interest tags are remembered between visits
+const INTERESTS_STORAGE_KEY = 'omestr_interests';
+
+const getStoredInterests = (): string[] => {
+  if (typeof window === 'undefined') return [];
+  
+  try {
+    const stored = JSON.parse(localStorage.getItem(INTERESTS_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(tag => typeof tag === 'string') : [];
+  } catch (_error) {
+    return [];
+  }
+};
+
+// Explain a ban from the matchmaking API, with when it ends
+const getBanMessage = (error: string | undefined, bannedUntil?: number) => {
+  const message = error || 'You have been banned from chatting';
+  return bannedUntil ? `${message} until ${new Date(bannedUntil).toLocaleString()}.` : `${message}.`;
+};
+
+// Shown while an event stream the server refused is waiting to be reopened
+const STREAM_LOST_MESSAGE = 'Lost connection to the server. Reconnecting…';
+
+const showStreamLost = (setError: (update: (current: string | null) => string | null) => void) =>
+  setError(current => current ?? STREAM_LOST_MESSAGE);
+
+const clearStreamLost = (setError: (update: (current: string | null) => string | null) => void) =>
+  setError(current => current === STREAM_LOST_MESSAGE ? null : current);
+
 // Hook for server-side matchmaking
 export function useServerMatchmaking() {
   const [status, setStatus] = useState<ConnectionStatus>('disconnected');
@@ -56,15 +114,23 @@ export function useServerMatchmaking() {
   const [userId, setUserId] = useState<string>('');
   const [sessionId, setSessionId] = useState<string>('');
   const [partner, setPartner] = useState<MatchUser | null>(null);
+  const [partnerLeft, setPartnerLeft] = useState<PartnerLeft | null>(null); // Why the last stranger left, until we look again
+  // The last stranger we were matched with, kept after they leave so they can still be reported
+  const lastPartnerRef = useRef<MatchUser | null>(null);
+  const [queue, setQueue] = useState<QueueSummary | null>(null); // Our place in the queue while looking
   const [error, setError] = useState<string | null>(null);
   const [keysGenerated, setKeysGenerated] = useState(false);
-  const [lastMessageCheck, setLastMessageCheck] = useState<number>(0);
+  
+  // When a moderator's ban ends; we don't try to join again before then
+  const [bannedUntil, setBannedUntil] = useState<number | null>(null);
   
   // Add a ref to track whether message polling is active
   const isPollingActive = useRef(false);
   
   // Generate keys for this session
+  // The private key never leaves the browser; it is kept in a ref so it can't end up in rendered state
   const [pubkey, setPubkey] = useState<string>('');
+  const privateKeyRef = useRef<string>('');
   
   // Timer state and ref for connection duration
   const [chatDuration, setChatDuration] = useState(0);
@@ -75,17 +141,39 @@ export function useServerMatchmaking() {
     typeof window !== 'undefined' ? getBrowserInstanceId() : ''
   );
   
+  // Interest tags used to prefer partners with something in common
+  const [interests, setInterests] = useState<string[]>(getStoredInterests);
+  const [languagePreference, setLanguagePreferenceState] = useState<LanguagePreference>(getLanguagePreference);
+  
   // Polling intervals
   const matchCheckInterval = useRef<NodeJS.Timeout | null>(null);
   const messageCheckInterval = useRef<NodeJS.Timeout | null>(null);
   const MATCH_POLL_INTERVAL = 2000; // Poll for matches every 2 seconds
   const MESSAGE_POLL_INTERVAL = 1000; // Poll for messages every 1 second
   
+  // Server event streams, used instead of polling when EventSource is available
+  const matchStreamRef = useRef<(() => void) | null>(null);
+  const chatStreamRef = useRef<(() => void) | null>(null);
+  
   // New state for reactions
   const [messageReactions, setMessageReactions] = useState<MessageReactionsMap>({});
   
+  // Typing signals go to whoever we're chatting with now
+  const {
+    partnerTyping,
+    notifyTyping,
+    stopTyping,
+    receive: receivePartnerTyping,
+    reset: resetTyping
+  } = useTypingIndicator(typing => {
+    if (userId && partner?.chatSessionId) {
+      void sendTypingSignal(userId, partner.chatSessionId, typing);
+    }
+  });
+  
   // Create a ref for polling functions to avoid circular dependencies
   const startPollingForMessagesRef = useRef<() => NodeJS.Timeout | null>(null);
+  const handlePartnerLeftRef = useRef<((partnerLeft: PartnerLeft) => void) | null>(null);
   
   // Initialize the session with a new user ID and keys
   const initialize = useCallback(() => {
@@ -98,7 +186,8 @@ export function useServerMatchmaking() {
     setSessionId(newSessionId);
     
     // Generate new keys
-    const newPubkey = generateRandomString(64);
+    const { privateKey, publicKey: newPubkey } = generateKeypair();
+    privateKeyRef.current = privateKey;
     setPubkey(newPubkey);
     setKeysGenerated(true);
     
@@ -119,6 +208,11 @@ export function useServerMatchmaking() {
       matchCheckInterval.current = null;
       logger.info('Stopped polling for matches');
     }
+    
+    if (matchStreamRef.current) {
+      matchStreamRef.current();
+      matchStreamRef.current = null;
+    }
   }, []);
   
   // Stop polling for messages
@@ -129,6 +223,12 @@ export function useServerMatchmaking() {
       isPollingActive.current = false;
       logger.info('Stopped polling for messages');
     }
+    
+    if (chatStreamRef.current) {
+      chatStreamRef.current();
+      chatStreamRef.current = null;
+      isPollingActive.current = false;
+    }
   }, []);
   
   // Format the chat duration as MM:SS
@@ -160,6 +260,148 @@ export function useServerMatchmaking() {
     }
   }, []);
   
+  // Merge messages received from the API into the chat
+  const addApiMessages = useCallback((apiMessages: ApiMessage[], currentUserId: string, keys: MessageKeys) => {
+    // Convert API messages to chat messages, dropping any we can't decrypt
+    const newChatMessages: ChatMessage[] = [];
+    
+    apiMessages.forEach((msg: ApiMessage) => {
+      logger.debug('Converting API message to chat message', {
+        id: msg.id.substring(0, 8),
+        senderId: msg.senderId.substring(0, 8),
+        receiverId: msg.receiverId.substring(0, 8),
+        currentUserId: currentUserId.substring(0, 8)
+      });
+      
+      const content = decryptMessageContent(msg.content, keys);
+      if (content === null) {
+        logger.warn('Dropping message that could not be decrypted', {
+          id: msg.id.substring(0, 8)
+        });
+        return;
+      }
+      
+      // Explicitly check if the message was sent by the current user
+      // This ensures 'me' is consistently used for the current user's messages only
+      const isSentByMe = msg.senderId === currentUserId;
+      
+      newChatMessages.push({
+        id: msg.id,
+        content,
+        sender: isSentByMe ? 'me' : 'partner',
+        timestamp: msg.timestamp,
+        status: isSentByMe ? (msg.readAt ? 'read' : msg.deliveredAt ? 'delivered' : 'sent') : undefined,
+      });
+    });
+    
+    // Add new messages to the state
+    setMessages(prevMessages => {
+      logger.debug('Updating messages state', {
+        currentCount: prevMessages.length,
+        newCount: newChatMessages.length,
+        totalAfter: prevMessages.length + newChatMessages.length
+      });
+      
+      // Filter out any messages that already exist in the state
+      // Our own messages keep the ID we gave them, so they match the local copy
+      const uniqueNewMessages = newChatMessages.filter(newMsg => 
+        !prevMessages.some(existingMsg => existingMsg.id === newMsg.id)
+      );
+      
+      if (uniqueNewMessages.length !== newChatMessages.length) {
+        logger.info('Filtered out duplicate messages', {
+          total: newChatMessages.length,
+          unique: uniqueNewMessages.length,
+          duplicates: newChatMessages.length - uniqueNewMessages.length
+        });
+      }
+      
+      return [...prevMessages, ...uniqueNewMessages];
+    });
+  }, []);
+  
+  // Move our messages on as the partner acknowledges them
+  const applyReceipts = useCallback((receipts: MessageReceipt[]) => {
+    const receiptsById = new Map(receipts.map(receipt => [receipt.messageId, receipt.status]));
+    setMessages(prevMessages => applyReceiptStatuses(prevMessages, receiptsById));
+  }, []);
+  
+  // Set the status of one of our messages
+  const setMessageStatus = useCallback((messageId: string, status: MessageStatus, error?: string) => {
+    setMessages(prevMessages => prevMessages.map(msg => {
+      if (msg.id !== messageId) return msg;
+      return status === 'failed'
+        ? { ...msg, status, error }
+        : { ...msg, status: advanceStatus(msg.status, status), error: undefined };
+    }));
+  }, []);
+  
+  // Unsent messages wait in the outbox and are retried until the server has them
+  const { send: sendThroughOutbox, flush: flushOutbox } = useOutbox(messageOutbox, partner?.chatSessionId, (updates: OutboxUpdate[]) => {
+    updates.forEach(update => {
+      if (update.status === 'sent') {
+        setMessageStatus(update.id, 'sent');
+      } else if (update.status === 'failed') {
+        setMessageStatus(update.id, 'failed', update.error);
+      } else if (update.retryAfter) {
+        showRateLimitError(new RateLimitError(update.retryAfter));
+      }
+    });
+  });
+  
+  // Merge reactions received from the API into the reactions map
+  const applyReactions = useCallback((reactionsData: ApiReaction[]) => {
+    const newReactionsMap: MessageReactionsMap = {};
+    
+    reactionsData.forEach(reaction => {
+      if (!newReactionsMap[reaction.messageId]) {
+        newReactionsMap[reaction.messageId] = [];
+      }
+      
+      // Determine if "me" or "partner" based on senderId
+      const sender = reaction.senderId === userId ? 'me' : 'partner';
+      
+      // Check for duplicates before adding
+      const exists = newReactionsMap[reaction.messageId].some(
+        r => r.emoji === reaction.emoji && r.sender === sender
+      );
+      
+      if (!exists) {
+        newReactionsMap[reaction.messageId].push({
+          emoji: reaction.emoji,
+          sender: sender
+        });
+      }
+    });
+    
+    // Merge with existing reactions
+    setMessageReactions(prev => {
+      const merged = {...prev};
+      Object.keys(newReactionsMap).forEach(msgId => {
+        if (!merged[msgId]) {
+          merged[msgId] = [];
+        }
+        
+        // Add new reactions that don't already exist
+        newReactionsMap[msgId].forEach(reaction => {
+          const exists = merged[msgId].some(
+            r => r.emoji === reaction.emoji && r.sender === reaction.sender
+          );
+          
+          if (!exists) {
+            merged[msgId].push(reaction);
+          }
+        });
+      });
+      
+      return merged;
+    });
+    
+    logger.info('Updated reactions from server', { 
+      count: Object.keys(newReactionsMap).length 
+    });
+  }, [userId]);
+  
   // Start polling for messages - define the implementation function
   const startPollingForMessagesImpl = useCallback(() => {
     // Clear any existing interval
@@ -167,9 +409,11 @@ export function useServerMatchmaking() {
       clearInterval(messageCheckInterval.current);
     }
     
-    // Initialize the last message check time - look back 10 seconds to catch any recent messages
-    const initialTimestamp = Date.now() - 10000;
-    setLastMessageCheck(initialTimestamp);
+    // Close any existing chat stream
+    if (chatStreamRef.current) {
+      chatStreamRef.current();
+      chatStreamRef.current = null;
+    }
     
     // Store current values to use in the interval callback
     const currentUserId = userId;
@@ -179,7 +423,6 @@ export function useServerMatchmaking() {
       userId: currentUserId, 
       partnerId: currentPartner?.id,
       chatSessionId: currentPartner?.chatSessionId,
-      initialTimestamp: new Date(initialTimestamp).toISOString(),
       timestamp: new Date().toISOString()
     });
     
@@ -199,7 +442,7 @@ export function useServerMatchmaking() {
     isPollingActive.current = true;
     
     // Stop polling for matches when connected to ensure we don't get multiple matches
-    if (matchCheckInterval.current) {
+    if (matchCheckInterval.current || matchStreamRef.current) {
       logger.info('Stopping match polling because we are connected');
       stopPollingForMatches();
     }
@@ -207,6 +450,39 @@ export function useServerMatchmaking() {
     // Cache partner chatSessionId to use in the interval
     const chatSessionId = currentPartner.chatSessionId;
     
+    // Keys for decrypting this chat's messages
+    const keys: MessageKeys = {
+      privateKey: privateKeyRef.current,
+      partnerPubkey: currentPartner.pubkey
+    };
+    
+    // Prefer the server event stream, which also delivers reactions and partner-left
+    if (isEventStreamSupported()) {
+      chatStreamRef.current = openEventStream(currentUserId, chatSessionId, {
+        onMessages: (apiMessages) => {
+          logger.info('Received new messages from stream', {
+            count: apiMessages.length,
+            chatSessionId
+          });
+          addApiMessages(apiMessages, currentUserId, keys);
+        },
+        onReceipts: (receipts) => applyReceipts(receipts),
+        onReactions: (reactions) => applyReactions(reactions),
+        onTyping: (typing) => receivePartnerTyping(typing),
+        onPartnerLeft: (partnerLeft) => handlePartnerLeftRef.current?.(partnerLeft),
+        onOpen: () => {
+          clearStreamLost(setError);
+          flushOutbox();
+        },
+        onClosed: () => showStreamLost(setError),
+      });
+      return null;
+    }
+    
+    // Server cursor for this chat; 0 fetches everything so far
+    let cursor = 0;
+    let pollInFlight = false;
+    
     // Set up polling interval
     messageCheckInterval.current = setInterval(async () => {
       // Verify we still have the correct state before polling
@@ -224,23 +500,32 @@ export function useServerMatchmaking() {
         return; // Just skip this iteration, don't stop polling completely
       }
       
-      // Use current value for checking, not the state
-      const currentLastCheck = lastMessageCheck;
+      // Don't overlap polls, or both would fetch from the same cursor
+      if (pollInFlight) return;
+      pollInFlight = true;
+      
       logger.debug('Checking for messages', { 
         userId: currentUserId, 
-        currentLastCheck,
+        cursor,
         chatSessionId,
         timestamp: new Date().toISOString()
       });
       
       try {
-        const response = await checkForMessages(currentUserId, currentLastCheck, chatSessionId);
+        const response = await checkForMessages(currentUserId, chatSessionId, cursor);
         
         if (!response.success) {
           logger.warn('Failed to check for messages', { error: response.error });
           return;
         }
         
+        // The server is reachable, so anything waiting in the outbox may go now
+        flushOutbox();
+        
+        if (response.partnerLeft) {
+          handlePartnerLeftRef.current?.(response.partnerLeft);
+        }
+        
         // If we have new messages, add them to the state
         if (response.messages && response.messages.length > 0) {
           logger.info('Received new messages', { 
@@ -249,91 +534,30 @@ export function useServerMatchmaking() {
             chatSessionId,
             messages: response.messages.map(m => ({
               id: m.id.substring(0, 8),
-              content: m.content.substring(0, 20),
               from: m.senderId.substring(0, 8)
             }))
           });
           
-          // Convert API messages to chat messages
-          const newChatMessages: ChatMessage[] = response.messages.map((msg: ApiMessage) => {
-            logger.debug('Converting API message to chat message', {
-              id: msg.id.substring(0, 8),
-              senderId: msg.senderId.substring(0, 8),
-              receiverId: msg.receiverId.substring(0, 8),
-              currentUserId: currentUserId.substring(0, 8),
-              content: msg.content.substring(0, 20)
-            });
-            
-            // Explicitly check if the message was sent by the current user
-            // This ensures 'me' is consistently used for the current user's messages only
-            const isSentByMe = msg.senderId === currentUserId;
-            
-            return {
-              id: msg.id,
-              content: msg.content,
-              sender: isSentByMe ? 'me' : 'partner',
-              timestamp: msg.timestamp,
-            };
-          });
-          
-          // Add new messages to the state
-          setMessages(prevMessages => {
-            logger.debug('Updating messages state', {
-              currentCount: prevMessages.length,
-              newCount: newChatMessages.length,
-              totalAfter: prevMessages.length + newChatMessages.length
-            });
-            
-            // Filter out any messages that already exist in the state by ID
-            // Also filter out any duplicate messages with the same content from the same sender recently
-            const uniqueNewMessages = newChatMessages.filter(newMsg => {
-              // First check if the exact same message ID already exists
-              const exactIdMatch = prevMessages.some(existingMsg => existingMsg.id === newMsg.id);
-              if (exactIdMatch) return false;
-              
-              // For messages from me, also check for content similarity to prevent duplicates from API
-              // This handles cases where the client-generated ID differs from server-returned ID
-              if (newMsg.sender === 'me') {
-                const contentMatch = prevMessages.some(existingMsg => 
-                  existingMsg.sender === 'me' && 
-                  existingMsg.content === newMsg.content &&
-                  // Only check recent messages (within the last 5 seconds)
-                  Math.abs(existingMsg.timestamp - newMsg.timestamp) < 5000
-                );
-                if (contentMatch) {
-                  logger.debug('Filtered out duplicate content message', {
-                    content: newMsg.content.substring(0, 20),
-                    id: newMsg.id.substring(0, 8),
-                    timestamp: newMsg.timestamp
-                  });
-                  return false;
-                }
-              }
-              
-              return true;
-            });
-            
-            if (uniqueNewMessages.length !== newChatMessages.length) {
-              logger.info('Filtered out duplicate messages', {
-                total: newChatMessages.length,
-                unique: uniqueNewMessages.length,
-                duplicates: newChatMessages.length - uniqueNewMessages.length
-              });
-            }
-            
-            return [...prevMessages, ...uniqueNewMessages];
-          });
+          addApiMessages(response.messages, currentUserId, keys);
         }
         
-        // Always update the timestamp regardless of whether we received messages
-        setLastMessageCheck(Date.now());
+        if (response.receipts && response.receipts.length > 0) {
+          applyReceipts(response.receipts);
+        }
+        
+        // Carry on from where the server says this batch ended
+        if (typeof response.nextCursor === 'number') {
+          cursor = response.nextCursor;
+        }
       } catch (err) {
         logger.error('Error while polling for messages', err);
+      } finally {
+        pollInFlight = false;
       }
     }, MESSAGE_POLL_INTERVAL);
     
     return messageCheckInterval.current; // Return the interval ID
-  }, [userId, partner, status, lastMessageCheck, stopPollingForMatches]);
+  }, [userId, partner, status, stopPollingForMatches, addApiMessages, applyReceipts, applyReactions, receivePartnerTyping, flushOutbox]);
   
   // Store the implementation in a ref to use in useEffect 
   // without creating circular dependencies
@@ -371,7 +595,7 @@ export function useServerMatchmaking() {
       startPollingForMessages();
       
       // Also stop polling for matches when connected to ensure we don't get multiple matches
-      if (matchCheckInterval.current) {
+      if (matchCheckInterval.current || matchStreamRef.current) {
         logger.info('Stopping match polling because we are already connected');
         stopPollingForMatches();
       }
@@ -399,10 +623,16 @@ export function useServerMatchmaking() {
         return;
       }
       
+      if (bannedUntil && Date.now() < bannedUntil) {
+        logger.warn('Cannot start looking - banned', { bannedUntil });
+        return;
+      }
+      
       // Reset state
       setStatus('looking');
       setMessages([]);
       setPartner(null);
+      setPartnerLeft(null);
       setError(null);
       setMessageReactions({}); // Clear all previous reactions
       
@@ -421,7 +651,11 @@ export function useServerMatchmaking() {
           userId,
           pubkey,
           sessionId,
-          browserId
+          browserId,
+          'looking',
+          undefined,
+          interests,
+          languagePreference
         );
         
         if (!response) {
@@ -431,6 +665,14 @@ export function useServerMatchmaking() {
           return;
         }
         
+        if (response.code === 'banned') {
+          setBannedUntil(response.bannedUntil ?? null);
+          setError(getBanMessage(response.error, response.bannedUntil));
+          setStatus('disconnected');
+          logger.warn('Banned from matchmaking', { bannedUntil: response.bannedUntil });
+          return;
+        }
+        
         if (!response.success) {
           setError(response.error || 'Failed to register as looking');
           setStatus('disconnected');
@@ -525,7 +767,7 @@ export function useServerMatchmaking() {
       setError('Critical error occurred. Please refresh and try again.');
       setStatus('disconnected');
     }
-  }, [userId, pubkey, sessionId, browserId, keysGenerated, initialize, stopPollingForMessages, startTimer]);
+  }, [userId, pubkey, sessionId, browserId, interests, languagePreference, bannedUntil, keysGenerated, initialize, stopPollingForMessages, startTimer]);
   
   // Start polling for matches
   const startPollingForMatches = useCallback(() => {
@@ -534,6 +776,12 @@ export function useServerMatchmaking() {
       clearInterval(matchCheckInterval.current);
     }
     
+    // Close any existing match stream
+    if (matchStreamRef.current) {
+      matchStreamRef.current();
+      matchStreamRef.current = null;
+    }
+    
     // Store current values to use in interval callback
     const currentUserId = userId;
     const currentBrowserId = browserId;
@@ -543,6 +791,70 @@ export function useServerMatchmaking() {
       browserId: currentBrowserId
     });
     
+    // Apply a match found by polling or pushed by the event stream
+    const handleMatchFound = async (match: MatchUser) => {
+      // Update state with the match
+      setPartner(match);
+      setStatus('connected');
+      
+      // Start the chat timer
+      startTimer();
+      
+      // Create a chat session ID if we don't have one
+      if (!match.chatSessionId) {
+        logger.error('Match found but no chatSessionId was provided', {
+          matchId: match.id
+        });
+        
+        // Generate a new chat session ID
+        const newChatSessionId = generateRandomString(16);
+        logger.info('Generated new chat session ID', { 
+          chatSessionId: newChatSessionId 
+        });
+        
+        // Register the user again with the new chat session ID to update the match
+        // This ensures both users have the same chat session ID
+        await registerLookingUser(
+          currentUserId,
+          pubkey,
+          sessionId,
+          currentBrowserId,
+          'matched',
+          newChatSessionId
+        );
+      }
+      
+      // Start polling for messages
+      startPollingForMessagesRef.current?.();
+      
+      // Since we found a match, stop polling for more matches
+      stopPollingForMatches();
+    };
+    
+    // Prefer the server event stream when the browser supports it
+    if (isEventStreamSupported()) {
+      matchStreamRef.current = openEventStream(currentUserId, undefined, {
+        onQueue: setQueue,
+        onMatchFound: (match) => {
+          logger.info('Match found from stream', { 
+            match: {
+              id: match.id.substring(0, 8),
+              pubkey: match.pubkey.substring(0, 8)
+            },
+            chatSessionId: match.chatSessionId
+          });
+          
+          handleMatchFound(match).catch(error => {
+            logger.error('Error handling streamed match', error);
+          });
+        },
+        onOpen: () => clearStreamLost(setError),
+        onClosed: () => showStreamLost(setError),
+      });
+      
+      return null;
+    }
+    
     const checkMatchFn = async () => {
       if (status !== 'looking') {
         logger.debug('Not checking for matches because status is not looking', {
@@ -564,6 +876,10 @@ export function useServerMatchmaking() {
           return;
         }
         
+        if (response.queue) {
+          setQueue(response.queue);
+        }
+        
         // If we have a match, update state
         if (response.match) {
           logger.info('Match found from polling', { 
@@ -574,43 +890,7 @@ export function useServerMatchmaking() {
             chatSessionId: response.match.chatSessionId
           });
           
-          // Update state with the match
-          setPartner(response.match);
-          setStatus('connected');
-          
-          // Start the chat timer
-          startTimer();
-          
-          // Create a chat session ID if we don't have one
-          if (!response.match.chatSessionId) {
-            logger.error('Match found but no chatSessionId was provided', {
-              matchId: response.match.id
-            });
-            
-            // Generate a new chat session ID
-            const newChatSessionId = generateRandomString(16);
-            logger.info('Generated new chat session ID', { 
-              chatSessionId: newChatSessionId 
-            });
-            
-            // Register the user again with the new chat session ID to update the match
-            // This ensures both users have the same chat session ID
-            await registerLookingUser(
-              currentUserId,
-              pubkey,
-              sessionId,
-              currentBrowserId,
-              'matched',
-              newChatSessionId
-            );
-          }
-          
-          // Start polling for messages
-          startPollingForMessagesRef.current?.();
-          
-          // Since we found a match, stop polling for more matches
-          clearInterval(matchCheckInterval.current!);
-          matchCheckInterval.current = null;
+          await handleMatchFound(response.match);
         }
       } catch (error) {
         logger.error('Error checking for match', error);
@@ -624,7 +904,7 @@ export function useServerMatchmaking() {
     matchCheckInterval.current = setInterval(checkMatchFn, MATCH_POLL_INTERVAL);
     
     return matchCheckInterval.current;
-  }, [userId, sessionId, pubkey, status, browserId, startTimer]);
+  }, [userId, sessionId, pubkey, status, browserId, startTimer, stopPollingForMatches]);
   
   // Register the user as looking for a match
   const registerAsLooking = useCallback(async () => {
@@ -641,7 +921,16 @@ export function useServerMatchmaking() {
     });
     
     try {
-      const response = await registerLookingUser(userId, pubkey, sessionId, browserId);
+      const response = await registerLookingUser(userId, pubkey, sessionId, browserId, 'looking', undefined, interests, languagePreference);
+      
+      if (response.code === 'banned') {
+        stopPollingForMatches();
+        setBannedUntil(response.bannedUntil ?? null);
+        setError(getBanMessage(response.error, response.bannedUntil));
+        setStatus('disconnected');
+        logger.warn('Banned from matchmaking', { bannedUntil: response.bannedUntil });
+        return;
+      }
       
       if (!response.success) {
         logger.error('Failed to register as looking', { error: response.error });
@@ -709,7 +998,65 @@ export function useServerMatchmaking() {
       logger.error('Error registering as looking', error);
       setError('Failed to register as looking');
     }
-  }, [userId, pubkey, sessionId, browserId, keysGenerated, startPollingForMatches, startTimer]);
+  }, [userId, pubkey, sessionId, browserId, interests, languagePreference, keysGenerated, startPollingForMatches, stopPollingForMatches, startTimer]);
+  
+  // Show a rate limit error until the server is ready for us again
+  const showRateLimitError = useCallback((rateLimitError: RateLimitError) => {
+    setError(rateLimitError.message);
+    
+    setTimeout(() => {
+      setError(current => current === rateLimitError.message ? null : current);
+    }, rateLimitError.retryAfter * 1000);
+  }, []);
+  
+  // Change interest tags, applying them straight away if we're already in the queue
+  const updateInterests = useCallback((newInterests: string[]) => {
+    const normalized = Array.from(new Set(
+      newInterests.map(tag => tag.trim().toLowerCase()).filter(tag => tag.length > 0)
+    ));
+    
+    setInterests(normalized);
+    localStorage.setItem(INTERESTS_STORAGE_KEY, JSON.stringify(normalized));
+    logger.info('Updated interests', { interests: normalized });
+    
+    if (status === 'looking' && userId) {
+      registerLookingUser(userId, pubkey, sessionId, browserId, 'looking', undefined, normalized, languagePreference)
+        .catch(error => logger.error('Failed to update interests', error));
+    }
+  }, [status, userId, pubkey, sessionId, browserId, languagePreference]);
+  
+  // Change our language, or whether we'll chat in any language, applying it straight away if we're in the queue
+  const updateLanguage = useCallback((preference: LanguagePreference) => {
+    setLanguagePreferenceState(preference);
+    setLanguagePreference(preference);
+    logger.info('Updated language preference', preference);
+    
+    if (status === 'looking' && userId) {
+      registerLookingUser(userId, pubkey, sessionId, browserId, 'looking', undefined, interests, preference)
+        .catch(error => logger.error('Failed to update language preference', error));
+    }
+  }, [status, userId, pubkey, sessionId, browserId, interests]);
+  
+  // Handle the partner leaving, as reported by the event stream or polling
+  // The chat stays on screen until the user asks for a new stranger.
+  const handlePartnerLeft = useCallback((left: PartnerLeft) => {
+    logger.info('Partner left the chat', {
+      partnerId: partner?.id.substring(0, 8),
+      chatSessionId: partner?.chatSessionId,
+      reason: left.reason
+    });
+    
+    stopPollingForMessages();
+    stopTimer();
+    
+    setPartner(null);
+    setPartnerLeft(left);
+    setStatus('disconnected');
+  }, [partner, stopPollingForMessages, stopTimer]);
+  
+  useEffect(() => {
+    handlePartnerLeftRef.current = handlePartnerLeft;
+  }, [handlePartnerLeft]);
   
   // Send a chat message
   const sendMessage = useCallback(async (message: string) => {
@@ -746,52 +1093,129 @@ export function useServerMatchmaking() {
     // Generate a unique ID for this message
     const messageId = generateRandomString(16);
     
+    // The message itself tells the partner we've stopped typing
+    stopTyping(false);
+    
+    // Run the content filters before anything leaves the browser
+    const filtered = runFilters(message, {
+      now: Date.now(),
+      chatStartedAt: chatStartedAtRef.current ?? undefined,
+      recentMessages: messages.filter(msg => msg.sender === 'me' && msg.status !== 'failed'),
+    });
+    
+    if (filtered.rejection) {
+      logger.warn('Message rejected by content filter', { filter: filtered.rejection.filter });
+      setMessages(prevMessages => [...prevMessages, {
+        id: messageId,
+        content: message,
+        sender: 'me',
+        timestamp: Date.now(),
+        status: 'failed',
+        error: filtered.rejection!.reason,
+      }]);
+      return;
+    }
+    
     // Create a new local message
     const newMessage: ChatMessage = {
       id: messageId,
-      content: message,
+      content: filtered.content,
       sender: 'me',
       timestamp: Date.now(),
+      status: 'pending',
     };
     
     // Add the message to our local state
-    setMessages(prevMessages => {
-      // Check if we already have this exact message to prevent doubles
-      if (prevMessages.some(msg => 
-        msg.sender === 'me' && 
-        msg.content === message &&
-        // Only check recent messages (within the last 2 seconds)
-        msg.timestamp > Date.now() - 2000
-      )) {
-        logger.warn('Prevented duplicate local message', { message });
-        return prevMessages;
-      }
-      return [...prevMessages, newMessage];
-    });
+    setMessages(prevMessages => [...prevMessages, newMessage]);
     
     try {
-      // Send the message to the server
-      const response = await apiSendMessage(message, userId, partner.id, partner.chatSessionId);
-      
-      if (!response.success) {
-        logger.error('Failed to send message to server', { 
-          error: response.error,
-          message
-        });
-      } else {
-        logger.info('Message sent successfully to server', { 
-          messageId: response.message?.id,
-          receiverId: partner.id,
-          chatSessionId: partner.chatSessionId
-        });
-      }
+      // Queue the message and send it; the outbox reports back how it went
+      await sendThroughOutbox(messageId, createOutgoingMessage(filtered.content, userId, partner.id, partner.chatSessionId, {
+        privateKey: privateKeyRef.current,
+        partnerPubkey: partner.pubkey
+      }, { id: messageId }));
     } catch (error) {
+      setMessageStatus(messageId, 'failed');
       logger.error('Exception when sending message', { 
         error: error instanceof Error ? error.message : String(error),
         message
       });
     }
-  }, [partner, userId, status]);
+  }, [partner, userId, status, messages, stopTyping, setMessageStatus, sendThroughOutbox]);
+  
+  // Send a failed message again, as a new message at the end of the chat
+  const retryMessage = useCallback((messageId: string) => {
+    const failed = messages.find(msg => msg.id === messageId && msg.status === 'failed');
+    if (!failed) return;
+    
+    setMessages(prevMessages => prevMessages.filter(msg => msg.id !== messageId));
+    sendMessage(failed.content);
+  }, [messages, sendMessage]);
+  
+  // Remember when the current chat started, for content filters that relax over time
+  // and forget any typing from the last one
+  const chatStartedAtRef = useRef<number | null>(null);
+  useEffect(() => {
+    chatStartedAtRef.current = partner?.chatSessionId ? Date.now() : null;
+    resetTyping();
+  }, [partner?.chatSessionId, resetTyping]);
+  
+  // Tell the partner when their messages reach us and when we've seen them
+  useMessageReceipts(messages, partner?.chatSessionId, (messageIds, ackStatus) => {
+    if (!userId || !partner?.chatSessionId) return;
+    acknowledgeMessages(userId, partner.chatSessionId, messageIds, ackStatus);
+  });
+  
+  // Run the partner's messages through the content filters as they arrive, and report any that
+  // trip one, at most once per filter and chat. This catches clients that skip their own filters.
+  const checkedMessageIdsRef = useRef<Set<string>>(new Set());
+  const reportedFiltersRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    if (!userId || !partner?.chatSessionId) return;
+    const { chatSessionId } = partner;
+    
+    messages.forEach((msg, index) => {
+      if (msg.sender !== 'partner' || checkedMessageIdsRef.current.has(msg.id)) return;
+      checkedMessageIdsRef.current.add(msg.id);
+      
+      const tripped = getTrippedFilters(msg.content, {
+        now: msg.timestamp,
+        chatStartedAt: chatStartedAtRef.current ?? undefined,
+        recentMessages: messages.slice(0, index).filter(earlier => earlier.sender === 'partner'),
+      });
+      
+      tripped
+        .filter(filter => !reportedFiltersRef.current.has(`${chatSessionId}:${filter}`))
+        .forEach(filter => {
+          reportedFiltersRef.current.add(`${chatSessionId}:${filter}`);
+          logger.warn('Partner message tripped a content filter, reporting it', { filter });
+          void reportUser(userId, partner.id, partner.pubkey, partner.browserKey, chatSessionId, 'spam',
+            `Reported automatically by the ${filter} filter`, [], filter);
+        });
+    });
+  }, [messages, partner, userId]);
+  
+  // Keep our place in the queue or chat alive, and leave when the tab closes
+  // If the server dropped us anyway, any chat is already over, so look again.
+  usePresence(userId, status === 'looking' || status === 'connected', () => {
+    logger.warn('Removed from matchmaking after missing heartbeats, looking again', { status });
+    stopPollingForMatches();
+    startLooking();
+  });
+  
+  // A message from the partner means they've stopped typing
+  useEffect(() => {
+    if (messages[messages.length - 1]?.sender === 'partner') {
+      receivePartnerTyping(false);
+    }
+  }, [messages, receivePartnerTyping]);
+  
+  // The queue only means something while we're in it
+  useEffect(() => {
+    if (status !== 'looking') {
+      setQueue(null);
+    }
+  }, [status]);
   
   // Start/stop timer based on connection status
   useEffect(() => {
@@ -841,6 +1265,7 @@ export function useServerMatchmaking() {
     // Reset state - important to do this after API calls to avoid re-renders mid-operation
     setStatus('disconnected');
     setPartner(null);
+    setPartnerLeft(null);
     setMessageReactions({}); // Clear all reactions when disconnecting
     
     logger.info('Disconnected from chat successfully');
@@ -852,7 +1277,7 @@ export function useServerMatchmaking() {
   const skipToNext = useCallback(() => {
     logger.info('Skipping to next partner');
     
-    // Save last disconnect time to prevent immediate reconnect with same partner
+    // The server won't pair us with this partner again for a while
     const lastMatchId = partner?.id;
     
     // First disconnect
@@ -868,6 +1293,50 @@ export function useServerMatchmaking() {
     });
   }, [disconnect, startLooking, partner]);
   
+  // Remember each partner until the next match replaces them
+  useEffect(() => {
+    if (partner) {
+      lastPartnerRef.current = partner;
+    }
+  }, [partner]);
+  
+  // Block the current partner so we're never matched again, report them, and move on
+  // A partner who already left can still be reported, until we're matched with someone else.
+  // The last messages are only sent with the report if the user agreed to share them.
+  const reportAndBlock = useCallback(async (reason: ReportReason, details: string, includeMessages: boolean) => {
+    const reported = partner ?? lastPartnerRef.current;
+    if (!reported) return;
+    
+    addToBlocklist(reported.browserKey, reported.pubkey);
+    
+    const reportedMessages = includeMessages
+      ? messages.slice(-REPORT_MESSAGE_COUNT).map(msg => ({
+          sender: msg.sender === 'me' ? 'reporter' as const : 'reported' as const,
+          content: msg.content,
+          timestamp: msg.timestamp,
+        }))
+      : [];
+    
+    if (reported.chatSessionId) {
+      const response = await reportUser(
+        userId,
+        reported.id,
+        reported.pubkey,
+        reported.browserKey,
+        reported.chatSessionId,
+        reason,
+        details,
+        reportedMessages
+      );
+      
+      if (!response.success) {
+        logger.error('Failed to report partner', { error: response.error });
+      }
+    }
+    
+    skipToNext();
+  }, [partner, messages, userId, skipToNext]);
+  
   // Reset all state and data
   const resetAll = useCallback(() => {
     logger.info('Resetting all state and data');
@@ -905,7 +1374,13 @@ export function useServerMatchmaking() {
         messageCheckInterval.current = null;
         logger.debug('Message polling stopped on unmount');
       }
-      
+
+      // Close any open event streams
+      matchStreamRef.current?.();
+      matchStreamRef.current = null;
+      chatStreamRef.current?.();
+      chatStreamRef.current = null;
+
       // Stop the timer
       if (timerRef.current) {
         clearInterval(timerRef.current);
@@ -915,7 +1390,7 @@ export function useServerMatchmaking() {
       
       // Remove the user from the matchmaking service
       if (userId) {
-        removeUser(userId).catch(err => {
+        removeUser(userId, 'closed').catch(err => {
           logger.error('Failed to remove user on unmount', err);
         });
       }
@@ -949,7 +1424,7 @@ export function useServerMatchmaking() {
       // Then send to server
       const response = await fetch('/api/reactions', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getAuthHeaders(userId) },
         body: JSON.stringify({
           messageId,
           emoji,
@@ -959,6 +1434,12 @@ export function useServerMatchmaking() {
         }),
       });
       
+      const rateLimitError = getRateLimitError(response);
+      if (rateLimitError) {
+        showRateLimitError(rateLimitError);
+        return;
+      }
+      
       if (!response.ok) {
         const errorText = await response.text();
         logger.warn('Failed to send reaction', { error: errorText });
@@ -969,17 +1450,19 @@ export function useServerMatchmaking() {
     } catch (err) {
       logger.error('Error sending reaction', err);
     }
-  }, [partner, userId]);
+  }, [partner, userId, showRateLimitError]);
 
-  // Poll for reactions
+  // Poll for reactions when they aren't delivered by the event stream
   useEffect(() => {
-    if (!partner?.chatSessionId || status !== 'connected') return;
+    if (!partner?.chatSessionId || status !== 'connected' || !userId) return;
+    if (isEventStreamSupported()) return;
     
     // Initial fetch of reactions when connecting
     const fetchReactions = async () => {
       try {
         const response = await fetch(
-          `/api/reactions?chatSessionId=${encodeURIComponent(partner.chatSessionId || '')}`
+          `/api/reactions?userId=${encodeURIComponent(userId)}&chatSessionId=${encodeURIComponent(partner.chatSessionId || '')}`,
+          { headers: getAuthHeaders(userId) }
         );
         
         if (!response.ok) return;
@@ -988,73 +1471,13 @@ export function useServerMatchmaking() {
         if (!data.success) return;
         
         if (data.reactions && data.reactions.length > 0) {
-          processReactions(data.reactions);
+          applyReactions(data.reactions);
         }
       } catch (err) {
         logger.error('Error fetching reactions', err);
       }
     };
     
-    // Process reactions received from API
-    const processReactions = (reactionsData: Array<{
-      messageId: string;
-      emoji: string;
-      senderId: string;
-      receiverId: string;
-      timestamp: number;
-      chatSessionId: string;
-    }>) => {
-      const newReactionsMap: MessageReactionsMap = {};
-      
-      reactionsData.forEach(reaction => {
-        if (!newReactionsMap[reaction.messageId]) {
-          newReactionsMap[reaction.messageId] = [];
-        }
-        
-        // Determine if "me" or "partner" based on senderId
-        const sender = reaction.senderId === userId ? 'me' : 'partner';
-        
-        // Check for duplicates before adding
-        const exists = newReactionsMap[reaction.messageId].some(
-          r => r.emoji === reaction.emoji && r.sender === sender
-        );
-        
-        if (!exists) {
-          newReactionsMap[reaction.messageId].push({
-            emoji: reaction.emoji,
-            sender: sender
-          });
-        }
-      });
-      
-      // Merge with existing reactions
-      setMessageReactions(prev => {
-        const merged = {...prev};
-        Object.keys(newReactionsMap).forEach(msgId => {
-          if (!merged[msgId]) {
-            merged[msgId] = [];
-          }
-          
-          // Add new reactions that don't already exist
-          newReactionsMap[msgId].forEach(reaction => {
-            const exists = merged[msgId].some(
-              r => r.emoji === reaction.emoji && r.sender === reaction.sender
-            );
-            
-            if (!exists) {
-              merged[msgId].push(reaction);
-            }
-          });
-        });
-        
-        return merged;
-      });
-      
-      logger.info('Updated reactions from server', { 
-        count: Object.keys(newReactionsMap).length 
-      });
-    };
-    
     // Fetch reactions immediately on connection
     fetchReactions();
     
@@ -1062,21 +1485,44 @@ export function useServerMatchmaking() {
     const interval = setInterval(fetchReactions, 2000);
     
     return () => clearInterval(interval);
-  }, [partner, status, userId]);
+  }, [userId, partner, status, applyReactions]);
+  
+  // Poll for typing when it isn't delivered by the event stream
+  useEffect(() => {
+    if (!partner?.chatSessionId || status !== 'connected' || !userId) return;
+    if (isEventStreamSupported()) return;
+    
+    const chatSessionId = partner.chatSessionId;
+    const interval = setInterval(async () => {
+      receivePartnerTyping(await checkPartnerTyping(userId, chatSessionId));
+    }, 2000);
+    
+    return () => clearInterval(interval);
+  }, [partner, status, userId, receivePartnerTyping]);
   
   return {
     status,
     messages,
     partner,
+    partnerLeft,
+    queue,
     error,
     startLooking,
     sendMessage,
+    retryMessage,
     disconnect,
     skipToNext,
+    reportAndBlock,
     resetAll,
     chatDuration,
     formattedDuration,
     messageReactions,
     sendReaction,
+    interests,
+    updateInterests,
+    languagePreference,
+    updateLanguage,
+    partnerTyping,
+    notifyTyping,
   };
 } 
\ No newline at end of file
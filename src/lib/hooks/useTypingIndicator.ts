@@ -0,0 +1,79 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+
+// While typing, say so again this often so the partner's indicator doesn't expire
+const TYPING_REFRESH_INTERVAL = 3000;
+
+// Say we've stopped after this long without a keystroke
+const TYPING_IDLE_TIMEOUT = 2000;
+
+// Hide the partner's indicator if we hear nothing for this long, e.g. if they closed the tab
+const PARTNER_TYPING_TIMEOUT = 5000;
+
+// Debounced typing/stopped signals for whichever transport the chat uses
+// `send` delivers our state to the partner; `receive` is called with theirs.
+export function useTypingIndicator(send: (typing: boolean) => void) {
+  const [partnerTyping, setPartnerTyping] = useState(false);
+
+  const sendRef = useRef(send);
+  sendRef.current = send;
+
+  const lastSentRef = useRef(0);
+  const idleTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const partnerTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Tell the partner we've stopped, if we told them we were typing
+  // Pass notify = false when something else tells them, like the message we just sent.
+  const stopTyping = useCallback((notify: boolean = true) => {
+    if (idleTimerRef.current) {
+      clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = null;
+    }
+
+    if (lastSentRef.current) {
+      lastSentRef.current = 0;
+      if (notify) sendRef.current(false);
+    }
+  }, []);
+
+  // Call on every keystroke
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastSentRef.current >= TYPING_REFRESH_INTERVAL) {
+      lastSentRef.current = now;
+      sendRef.current(true);
+    }
+
+    if (idleTimerRef.current) {
+      clearTimeout(idleTimerRef.current);
+    }
+    idleTimerRef.current = setTimeout(() => stopTyping(), TYPING_IDLE_TIMEOUT);
+  }, [stopTyping]);
+
+  // Call when the partner's state arrives
+  const receive = useCallback((typing: boolean) => {
+    if (partnerTimerRef.current) {
+      clearTimeout(partnerTimerRef.current);
+      partnerTimerRef.current = null;
+    }
+
+    setPartnerTyping(typing);
+
+    if (typing) {
+      partnerTimerRef.current = setTimeout(() => setPartnerTyping(false), PARTNER_TYPING_TIMEOUT);
+    }
+  }, []);
+
+  // Forget both sides' state, e.g. when the chat ends
+  const reset = useCallback(() => {
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    if (partnerTimerRef.current) clearTimeout(partnerTimerRef.current);
+    idleTimerRef.current = null;
+    partnerTimerRef.current = null;
+    lastSentRef.current = 0;
+    setPartnerTyping(false);
+  }, []);
+
+  useEffect(() => reset, [reset]);
+
+  return { partnerTyping, notifyTyping, stopTyping, receive, reset };
+}
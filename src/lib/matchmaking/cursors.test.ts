@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage, createEmptyData, StoreData } from '../store';
+import { assignSequence, cleanupSequences, getMessagesSince } from './cursors';
+
+const createMessage = (id: string, chatSessionId = 'chat', fields: Partial<ChatMessage> = {}): ChatMessage => ({
+  id,
+  content: `content-${id}`,
+  senderId: 'a',
+  receiverId: 'b',
+  timestamp: 1_000_000_000,
+  chatSessionId,
+  ...fields,
+});
+
+// Store messages the way the messages API does
+const store = (data: StoreData, ...messages: ChatMessage[]) => {
+  messages.forEach(message => {
+    assignSequence(data, message);
+    data.messages.push(message);
+  });
+};
+
+describe('assignSequence', () => {
+  it('numbers each chat on its own, starting from 1', () => {
+    const data = createEmptyData();
+    store(data, createMessage('a1', 'a'), createMessage('b1', 'b'), createMessage('a2', 'a'));
+
+    expect(data.messages.map(message => `${message.id}:${message.seq}`)).toEqual(['a1:1', 'b1:1', 'a2:2']);
+  });
+
+  it('never reuses a number after old messages are cleaned up', () => {
+    const data = createEmptyData();
+    data.lookingUsers.push({
+      id: 'a', pubkey: 'a', sessionId: 'a', browserId: 'a', timestamp: 0, status: 'matched', chatSessionId: 'chat'
+    });
+    store(data, createMessage('1'), createMessage('2'));
+
+    data.messages = [];
+    cleanupSequences(data);
+    store(data, createMessage('3'));
+
+    expect(data.messages[0].seq).toBe(3);
+  });
+});
+
+describe('getMessagesSince', () => {
+  it('returns messages in the order they were stored, whatever their timestamps say', () => {
+    const data = createEmptyData();
+    store(data,
+      createMessage('first', 'chat', { timestamp: 3000 }),
+      createMessage('other', 'elsewhere'),
+      createMessage('second', 'chat', { timestamp: 1000 }),
+      createMessage('third', 'chat', { timestamp: 2000 }),
+    );
+    data.messages.reverse();
+
+    const { messages, nextCursor } = getMessagesSince(data.messages, 'chat', 0);
+
+    expect(messages.map(message => message.id)).toEqual(['first', 'second', 'third']);
+    expect(nextCursor).toBe(3);
+  });
+
+  it('resumes after a cursor, so each message is returned exactly once', () => {
+    const data = createEmptyData();
+    store(data, createMessage('1'), createMessage('2'));
+
+    const first = getMessagesSince(data.messages, 'chat', 0);
+    store(data, createMessage('3'));
+    const second = getMessagesSince(data.messages, 'chat', first.nextCursor);
+    const third = getMessagesSince(data.messages, 'chat', second.nextCursor);
+
+    expect(first.messages.map(message => message.id)).toEqual(['1', '2']);
+    expect(second.messages.map(message => message.id)).toEqual(['3']);
+    expect(third).toEqual({ messages: [], nextCursor: 3 });
+  });
+
+  it('keeps the cursor it was given when there is nothing new', () => {
+    expect(getMessagesSince([], 'chat', 7)).toEqual({ messages: [], nextCursor: 7 });
+  });
+});
+
+describe('cleanupSequences', () => {
+  it('forgets the counters of chats with nobody in them and no messages left', () => {
+    const data = createEmptyData();
+    data.lookingUsers.push({
+      id: 'a', pubkey: 'a', sessionId: 'a', browserId: 'a', timestamp: 0, status: 'matched', chatSessionId: 'occupied'
+    });
+    store(data, createMessage('1', 'occupied'), createMessage('2', 'stored'), createMessage('3', 'over'));
+    data.messages = data.messages.filter(message => message.chatSessionId === 'stored');
+
+    cleanupSequences(data);
+
+    expect(Object.keys(data.messageSequences).sort()).toEqual(['occupied', 'stored']);
+  });
+});
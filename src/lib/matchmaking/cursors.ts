@@ -0,0 +1,35 @@
+import type { ChatMessage, StoreData } from '../store';
+
+// Give a new message the next sequence number in its chat
+// Numbers come from a counter rather than the stored messages, so they never repeat
+// after old messages are cleaned up.
+export const assignSequence = (data: StoreData, message: ChatMessage) => {
+  const seq = (data.messageSequences[message.chatSessionId] || 0) + 1;
+  data.messageSequences[message.chatSessionId] = seq;
+  message.seq = seq;
+  return seq;
+};
+
+// Messages in a chat after the cursor `since`, oldest first, and the cursor to poll with next
+export const getMessagesSince = (messages: ChatMessage[], chatSessionId: string, since: number) => {
+  const newMessages = messages
+    .filter(message => message.chatSessionId === chatSessionId && (message.seq || 0) > since)
+    .sort((a, b) => (a.seq || 0) - (b.seq || 0));
+
+  const nextCursor = newMessages.length > 0 ? newMessages[newMessages.length - 1].seq || since : since;
+  return { messages: newMessages, nextCursor };
+};
+
+// Forget the counters of chats nobody is in and that have no messages left
+export const cleanupSequences = (data: StoreData) => {
+  const activeChats = new Set([
+    ...data.lookingUsers.map(user => user.chatSessionId),
+    ...data.messages.map(message => message.chatSessionId),
+  ]);
+
+  Object.keys(data.messageSequences).forEach(chatSessionId => {
+    if (!activeChats.has(chatSessionId)) {
+      delete data.messageSequences[chatSessionId];
+    }
+  });
+};
@@ -0,0 +1,8 @@
+// Reduce a language tag like `en-US` to its primary language, or undefined if it isn't one
+// Shared by the language picker and the matchmaking API, so both agree on what a language is.
+export const normalizeLanguage = (language: unknown): string | undefined => {
+  if (typeof language !== 'string') return undefined;
+
+  const primary = language.trim().toLowerCase().split(/[-_]/)[0];
+  return /^[a-z]{2,3}$/.test(primary) ? primary : undefined;
+};
@@ -0,0 +1,198 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptyData, LookingUser, StoreData } from '../store';
+import { getBrowserKey } from './ownership';
+import {
+  blockedScorer,
+  cleanupRecentPartners,
+  createMatchContext,
+  findMatch,
+  getInterestWait,
+  indexRecentPartners,
+  interestScorer,
+  languageScorer,
+  matchQueue,
+  MatchScorer,
+  recentPartnerScorer,
+  rememberPartners,
+} from './matcher';
+
+const NOW = 1_000_000_000;
+
+const createUser = (id: string, fields: Partial<LookingUser> = {}): LookingUser => ({
+  id,
+  pubkey: id.padEnd(64, '0'),
+  sessionId: `session-${id}`,
+  browserId: `browser-${id}`,
+  timestamp: NOW,
+  lookingSince: NOW,
+  status: 'looking',
+  ...fields,
+});
+
+const createData = (...users: LookingUser[]): StoreData => ({ ...createEmptyData(), lookingUsers: users });
+
+const score = (scorer: MatchScorer, a: LookingUser, b: LookingUser, data: StoreData = createData(a, b), now = NOW) =>
+  scorer(a, b, createMatchContext(data, now));
+
+describe('scorers', () => {
+  it('rules out browsers that chatted recently, either way round', () => {
+    const a = createUser('a');
+    const b = createUser('b');
+    const data = createData(a, b);
+    expect(score(recentPartnerScorer, a, b, data)).toBe(0);
+
+    rememberPartners(data, a, b, NOW);
+
+    expect(score(recentPartnerScorer, a, b, data)).toBeNull();
+    expect(score(recentPartnerScorer, b, a, data)).toBeNull();
+  });
+
+  it('rules out pairs where either has blocked the other', () => {
+    const a = createUser('a', { blockedBrowserKeys: [getBrowserKey('browser-b')] });
+    const b = createUser('b');
+    const c = createUser('c');
+
+    expect(score(blockedScorer, a, b)).toBeNull();
+    expect(score(blockedScorer, b, a)).toBeNull();
+    expect(score(blockedScorer, a, c)).toBe(0);
+  });
+
+  it('scores a point per shared interest', () => {
+    const a = createUser('a', { interests: ['music', 'films', 'cats'] });
+    const b = createUser('b', { interests: ['cats', 'music'] });
+
+    expect(score(interestScorer, a, b)).toBe(2);
+  });
+
+  it('only pairs people with nothing in common once neither is holding out for their interests', () => {
+    const a = createUser('a', { interests: ['music'] });
+    const b = createUser('b');
+
+    expect(score(interestScorer, a, b)).toBeNull();
+    expect(score(interestScorer, a, b, createData(a, b), NOW + getInterestWait())).toBe(0);
+    expect(score(interestScorer, b, createUser('c'))).toBe(0);
+  });
+
+  it('prefers the same language and keeps different languages apart unless both opted in', () => {
+    const english = createUser('a', { language: 'en' });
+
+    expect(score(languageScorer, english, createUser('b', { language: 'en' }))).toBeGreaterThan(10);
+    expect(score(languageScorer, english, createUser('c', { language: 'de' }))).toBeNull();
+    expect(score(languageScorer, createUser('d', { language: 'en', anyLanguage: true }), createUser('e', { language: 'de', anyLanguage: true }))).toBe(0);
+    expect(score(languageScorer, english, createUser('f'))).toBe(0);
+  });
+});
+
+describe('findMatch', () => {
+  it('picks the highest total score, then whoever has waited longest', () => {
+    const user = createUser('user', { interests: ['music', 'cats'] });
+    const newer = createUser('newer', { interests: ['music', 'cats'], lookingSince: NOW - 1000 });
+    const older = createUser('older', { interests: ['music', 'cats'], lookingSince: NOW - 2000 });
+    const weaker = createUser('weaker', { interests: ['music'], lookingSince: NOW - 5000 });
+
+    expect(findMatch(createData(user, newer, older, weaker), user, NOW)?.id).toBe('older');
+  });
+
+  it('counts negative scores instead of treating them as ruled out', () => {
+    const user = createUser('user');
+    const disliked = createUser('disliked');
+    const penalty: MatchScorer = () => -5;
+
+    expect(findMatch(createData(user, disliked), user, NOW, [penalty])?.id).toBe('disliked');
+  });
+
+  it('prefers a less negative score', () => {
+    const user = createUser('user');
+    const worse = createUser('worse', { lookingSince: NOW - 1000 });
+    const better = createUser('better');
+    const penalty: MatchScorer = (_user, candidate) => candidate.id === 'worse' ? -5 : -1;
+
+    expect(findMatch(createData(user, worse, better), user, NOW, [penalty])?.id).toBe('better');
+  });
+
+  it('skips candidates a scorer rules out', () => {
+    const user = createUser('user');
+    const candidate = createUser('candidate');
+    const never: MatchScorer = () => null;
+
+    expect(findMatch(createData(user, candidate), user, NOW, [never])).toBeNull();
+  });
+
+  it('never matches a user with their own browser or with someone already matched', () => {
+    const user = createUser('user');
+    const sameBrowser = createUser('same', { browserId: user.browserId });
+    const matched = createUser('matched', { status: 'matched', matchedWith: 'someone' });
+
+    expect(findMatch(createData(user, sameBrowser, matched), user, NOW)).toBeNull();
+  });
+});
+
+describe('matchQueue', () => {
+  it('serves the longest-waiting user first and pairs everyone it can', () => {
+    const first = createUser('first', { lookingSince: NOW - 3000 });
+    const second = createUser('second', { lookingSince: NOW - 2000 });
+    const third = createUser('third', { lookingSince: NOW - 1000 });
+    const data = createData(third, second, first);
+
+    const pairs = matchQueue(data, NOW);
+
+    expect(pairs.map(([user, match]) => [user.id, match.id])).toEqual([['first', 'second']]);
+    expect(first.chatSessionId).toBe(second.chatSessionId);
+    expect(third.status).toBe('looking');
+    expect(data.matchTimes).toEqual([NOW]);
+  });
+
+  it('keeps recent partners apart until the window has passed and both have met others', () => {
+    const a = createUser('a');
+    const b = createUser('b');
+    const data = createData(a, b);
+    rememberPartners(data, a, b, NOW);
+    const later = NOW + 11 * 60 * 1000;
+
+    expect(matchQueue(data, NOW)).toEqual([]);
+    expect(matchQueue(data, later)).toEqual([]);
+
+    [a, b].forEach(user => ['x', 'y', 'z'].forEach(other => rememberPartners(data, user, createUser(`${user.id}-${other}`), NOW + 1)));
+    expect(matchQueue(data, later)).toHaveLength(1);
+  });
+
+  it('handles a large queue', () => {
+    const users = Array.from({ length: 1000 }, (_, i) => createUser(`user-${i}`, { lookingSince: NOW - i }));
+    const data = createData(...users);
+    users.forEach((user, i) => {
+      if (i > 0) rememberPartners(data, user, users[i - 1], NOW);
+    });
+
+    const pairs = matchQueue(data, NOW);
+
+    expect(pairs).toHaveLength(500);
+    expect(users.every(user => user.status === 'matched')).toBe(true);
+  });
+});
+
+describe('recent partners', () => {
+  it('keeps the last few partners however long ago, and anyone within the window', () => {
+    const data = createEmptyData();
+    const user = createUser('user');
+    const partners = Array.from({ length: 5 }, (_, i) => createUser(`partner-${i}`));
+    partners.forEach((partner, i) => rememberPartners(data, user, partner, NOW - (60 - i) * 60 * 1000));
+    rememberPartners(data, user, createUser('latest'), NOW - 1000);
+
+    const index = indexRecentPartners(data, NOW);
+
+    expect(Array.from(index.get('browser-user') ?? []).sort()).toEqual(['browser-latest', 'browser-partner-3', 'browser-partner-4']);
+  });
+
+  it('cleans up entries that fell out of every window', () => {
+    const data = createEmptyData();
+    const user = createUser('user');
+    Array.from({ length: 5 }, (_, i) => createUser(`partner-${i}`))
+      .forEach((partner, i) => rememberPartners(data, user, partner, NOW - (60 - i) * 60 * 1000));
+
+    cleanupRecentPartners(data, NOW);
+
+    expect(data.recentPartners.filter(entry => entry.browserId === 'browser-user')).toHaveLength(3);
+    // Each partner still remembers this user, as their most recent partner
+    expect(data.recentPartners).toHaveLength(8);
+  });
+});
@@ -0,0 +1,317 @@
+import { userTopic, LookingUser, StoreData, StoreTopic } from '../store';
+import { getBrowserKey } from './ownership';
+
+// How long someone with interests waits for a shared-interest match before
+// they'll be matched with anyone, overridable with OMESTR_INTEREST_WAIT_MS
+const DEFAULT_INTEREST_WAIT = 10 * 1000;
+
+// How long, and for how many partners, a browser is kept from being matched
+// with someone it recently chatted with, overridable with
+// OMESTR_RECENT_PARTNER_MINUTES and OMESTR_RECENT_PARTNER_COUNT (0 turns either off)
+const DEFAULT_RECENT_PARTNER_MINUTES = 10;
+const DEFAULT_RECENT_PARTNER_COUNT = 3;
+
+// Most browser keys a user can block
+const MAX_BLOCKED = 500;
+
+// Limits on the interest tags a user can register
+const MAX_INTERESTS = 10;
+const MAX_INTEREST_LENGTH = 32;
+
+const getNumberFromEnv = (name: string, fallback: number) => {
+  const value = process.env[name];
+  if (!value) return fallback;
+
+  const configured = Number(value);
+  return Number.isFinite(configured) && configured >= 0 ? configured : fallback;
+};
+
+export const getInterestWait = () => getNumberFromEnv('OMESTR_INTEREST_WAIT_MS', DEFAULT_INTEREST_WAIT);
+
+export const getRecentPartnerWindow = () => ({
+  duration: getNumberFromEnv('OMESTR_RECENT_PARTNER_MINUTES', DEFAULT_RECENT_PARTNER_MINUTES) * 60 * 1000,
+  count: getNumberFromEnv('OMESTR_RECENT_PARTNER_COUNT', DEFAULT_RECENT_PARTNER_COUNT),
+});
+
+// How often the recent partners table is pruned; lookups apply the window themselves
+const RECENT_PARTNER_CLEANUP_INTERVAL = 60 * 1000;
+
+// The browsers each browser was recently matched with, built in one pass over the table
+// so matching a queue doesn't walk it again for every pair.
+export const indexRecentPartners = (data: StoreData, now: number = Date.now()): Map<string, Set<string>> => {
+  const { duration, count } = getRecentPartnerWindow();
+  const byBrowser = new Map<string, StoreData['recentPartners']>();
+
+  data.recentPartners.forEach(entry => {
+    const entries = byBrowser.get(entry.browserId);
+    if (entries) {
+      entries.push(entry);
+    } else {
+      byBrowser.set(entry.browserId, [entry]);
+    }
+  });
+
+  const index = new Map<string, Set<string>>();
+  byBrowser.forEach((entries, browserId) => {
+    const partners = entries
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .filter((entry, position) => position < count || now - entry.timestamp < duration)
+      .map(entry => entry.partnerBrowserId);
+
+    if (partners.length > 0) {
+      index.set(browserId, new Set(partners));
+    }
+  });
+
+  return index;
+};
+
+// Whether either browser was recently matched with the other
+const wereRecentPartners = (recentPartners: Map<string, Set<string>>, a: LookingUser, b: LookingUser) =>
+  !!recentPartners.get(a.browserId)?.has(b.browserId) ||
+  !!recentPartners.get(b.browserId)?.has(a.browserId);
+
+// Remember that two users were partners, or refresh the time if they already were
+export const rememberPartners = (data: StoreData, a: LookingUser, b: LookingUser, now: number = Date.now()) => {
+  [[a, b], [b, a]].forEach(([user, partner]) => {
+    const existing = data.recentPartners.find(entry =>
+      entry.browserId === user.browserId && entry.partnerBrowserId === partner.browserId
+    );
+
+    if (existing) {
+      existing.timestamp = now;
+    } else {
+      data.recentPartners.push({ browserId: user.browserId, partnerBrowserId: partner.browserId, timestamp: now });
+    }
+  });
+};
+
+let lastRecentPartnerCleanup = 0;
+
+// Forget partners that have fallen out of every browser's window, at most once a minute
+export const cleanupRecentPartners = (data: StoreData, now: number = Date.now()) => {
+  if (now - lastRecentPartnerCleanup < RECENT_PARTNER_CLEANUP_INTERVAL) return;
+  lastRecentPartnerCleanup = now;
+
+  const index = indexRecentPartners(data, now);
+  data.recentPartners = data.recentPartners.filter(entry => !!index.get(entry.browserId)?.has(entry.partnerBrowserId));
+};
+
+// Keep only well-formed browser keys from a client's blocklist
+export const normalizeBlockedBrowserKeys = (blocked: unknown): string[] => {
+  if (!Array.isArray(blocked)) return [];
+
+  const keys = blocked
+    .filter((key): key is string => typeof key === 'string' && /^[0-9a-f]{64}$/i.test(key))
+    .map(key => key.toLowerCase());
+
+  return Array.from(new Set(keys)).slice(-MAX_BLOCKED);
+};
+
+// Whether either user has blocked the other's browser
+const hasBlocked = (a: LookingUser, b: LookingUser) =>
+  !!a.blockedBrowserKeys?.includes(getBrowserKey(b.browserId)) ||
+  !!b.blockedBrowserKeys?.includes(getBrowserKey(a.browserId));
+
+// Lowercase, trim and de-duplicate interest tags, dropping anything that isn't a usable tag
+export const normalizeInterests = (interests: unknown): string[] => {
+  if (!Array.isArray(interests)) return [];
+
+  const normalized = interests
+    .filter((interest): interest is string => typeof interest === 'string')
+    .map(interest => interest.trim().toLowerCase().replace(/\s+/g, ' '))
+    .filter(interest => interest.length > 0 && interest.length <= MAX_INTEREST_LENGTH);
+
+  return Array.from(new Set(normalized)).slice(0, MAX_INTERESTS);
+};
+
+export const getSharedInterests = (a: LookingUser, b: LookingUser): string[] => {
+  const theirs = new Set(b.interests || []);
+  return (a.interests || []).filter(interest => theirs.has(interest));
+};
+
+// Generate a random string for chat session IDs
+const generateRandomId = (length: number = 12): string => {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    result += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return result;
+};
+
+// When a user started waiting; the queue is served longest-waiting first
+const waitingSince = (user: LookingUser) => user.lookingSince ?? user.timestamp;
+
+// A user accepts a partner with nothing in common once they have no interests
+// or have waited long enough for someone who shares them
+const acceptsAnyone = (user: LookingUser, now: number, interestWait: number) =>
+  !user.interests?.length || now - waitingSince(user) >= interestWait;
+
+// What scorers know besides the two users
+export interface MatchContext {
+  data: StoreData;
+  now: number;
+  interestWait: number;
+  recentPartners: Map<string, Set<string>>; // From indexRecentPartners
+}
+
+export const createMatchContext = (data: StoreData, now: number = Date.now()): MatchContext => ({
+  data,
+  now,
+  interestWait: getInterestWait(),
+  recentPartners: indexRecentPartners(data, now),
+});
+
+// Rate how well a candidate suits a user: higher is better and scores may be negative,
+// while null rules the pair out. Scorers must be symmetric, since the queue may reach either user first.
+export type MatchScorer = (user: LookingUser, candidate: LookingUser, context: MatchContext) => number | null;
+
+// Never pair browsers that chatted recently
+export const recentPartnerScorer: MatchScorer = (user, candidate, { recentPartners }) =>
+  wereRecentPartners(recentPartners, user, candidate) ? null : 0;
+
+// Never pair someone with a browser they blocked, or that blocked them
+export const blockedScorer: MatchScorer = (user, candidate) =>
+  hasBlocked(user, candidate) ? null : 0;
+
+// A point per shared interest; people with nothing in common only meet
+// once neither is still holding out for their interests
+export const interestScorer: MatchScorer = (user, candidate, { now, interestWait }) => {
+  const shared = getSharedInterests(user, candidate).length;
+  if (shared > 0) return shared;
+  return acceptsAnyone(user, now, interestWait) && acceptsAnyone(candidate, now, interestWait) ? 0 : null;
+};
+
+// Speaking the same language outweighs any number of shared interests, so it comes first
+// People who speak different languages only meet if both opted in to any language.
+// Someone who hasn't said what they speak can be matched with anyone.
+export const languageScorer: MatchScorer = (user, candidate) => {
+  if (!user.language || !candidate.language) return 0;
+  if (user.language === candidate.language) return MAX_INTERESTS + 1;
+  return user.anyLanguage && candidate.anyLanguage ? 0 : null;
+};
+
+export const defaultScorers: MatchScorer[] = [
+  recentPartnerScorer,
+  blockedScorer,
+  interestScorer,
+  languageScorer,
+];
+
+// Whether a user is waiting to be matched
+const isWaiting = (user: LookingUser) => user.status === 'looking' && !user.matchedWith;
+
+// Add up every scorer's score for a pair, or null as soon as one rules it out
+const scorePair = (user: LookingUser, candidate: LookingUser, context: MatchContext, scorers: MatchScorer[]) => {
+  let total = 0;
+  for (const scorer of scorers) {
+    const score = scorer(user, candidate, context);
+    if (score === null) return null;
+    total += score;
+  }
+  return total;
+};
+
+// Find the best partner for a looking user, without changing anything
+// The highest total score wins, then whoever has waited longest.
+export const findMatch = (
+  data: StoreData,
+  user: LookingUser,
+  now: number = Date.now(),
+  scorers: MatchScorer[] = defaultScorers,
+  context: MatchContext = createMatchContext(data, now)
+): LookingUser | null => {
+  let best: { match: LookingUser; score: number } | null = null;
+
+  for (const candidate of data.lookingUsers) {
+    if (candidate.id === user.id || candidate.browserId === user.browserId || !isWaiting(candidate)) continue;
+
+    const score = scorePair(user, candidate, context, scorers);
+    if (score === null) continue;
+
+    if (!best || score > best.score || (score === best.score && waitingSince(candidate) < waitingSince(best.match))) {
+      best = { match: candidate, score };
+    }
+  }
+
+  return best?.match ?? null;
+};
+
+// Pair two users in place, giving both the same chat session
+// Returns false, changing nothing, unless both are still waiting, so nobody is ever matched twice.
+const pairUsers = (data: StoreData, user: LookingUser, match: LookingUser, now: number) => {
+  if (user.id === match.id || !isWaiting(user) || !isWaiting(match)) return false;
+
+  const sharedChatSessionId = generateRandomId(16);
+  const sharedInterests = getSharedInterests(user, match);
+  rememberPartners(data, user, match, now);
+
+  user.status = 'matched';
+  user.matchedWith = match.id;
+  user.chatSessionId = sharedChatSessionId;
+  user.sharedInterests = sharedInterests;
+
+  match.status = 'matched';
+  match.matchedWith = user.id;
+  match.chatSessionId = sharedChatSessionId;
+  match.sharedInterests = sharedInterests;
+
+  data.matchTimes.push(now);
+
+  console.log(`[Matchmaking API] Matched user ${user.id.substring(0, 6)}... with user ${match.id.substring(0, 6)}...`);
+  console.log(`[Matchmaking API] Chat session ID: ${sharedChatSessionId}, shared interests: ${sharedInterests.join(', ') || 'none'}`);
+  return true;
+};
+
+// The users waiting to be matched, longest-waiting first
+export const getQueue = (data: StoreData): LookingUser[] =>
+  data.lookingUsers
+    .filter(isWaiting)
+    .sort((a, b) => waitingSince(a) - waitingSince(b) || a.id.localeCompare(b.id));
+
+// Work through the queue in order, pairing each user with their best partner
+// Someone who has waited longer is always offered a partner before anyone behind them.
+// Must be called inside a store update so the pairing is atomic; returns the pairs made.
+export const matchQueue = (
+  data: StoreData,
+  now: number = Date.now(),
+  scorers: MatchScorer[] = defaultScorers
+): [LookingUser, LookingUser][] => {
+  const pairs: [LookingUser, LookingUser][] = [];
+  // Users paired here leave the queue, so the index built up front stays good for everyone else
+  const context = createMatchContext(data, now);
+
+  for (const user of getQueue(data)) {
+    if (!isWaiting(user)) continue;
+
+    const match = findMatch(data, user, now, scorers, context);
+    if (match && pairUsers(data, user, match, now)) {
+      pairs.push([user, match]);
+    }
+  }
+
+  return pairs;
+};
+
+// What a queue run changed: both sides of each new pair, and the queue itself
+export const getPairTopics = (pairs: [LookingUser, LookingUser][]): StoreTopic[] =>
+  pairs.length > 0
+    ? [...pairs.flatMap(([user, match]) => [userTopic(user.id), userTopic(match.id)]), 'queue']
+    : [];
+
+// Run the queue and tell a looking user who they were paired with, if anyone
+// Also returns every pair the run made, since others in the queue may have been paired too.
+// Must be called inside a store update so the pairing is atomic.
+export const tryMatch = (
+  data: StoreData,
+  userId: string,
+  now: number = Date.now()
+): { match: LookingUser | null; pairs: [LookingUser, LookingUser][] } => {
+  const user = data.lookingUsers.find(u => u.id === userId);
+  if (!user || !isWaiting(user)) return { match: null, pairs: [] };
+
+  const pairs = matchQueue(data, now);
+  const match = user.matchedWith ? data.lookingUsers.find(u => u.id === user.matchedWith) : undefined;
+  return { match: match ? { ...match } : null, pairs };
+};
@@ -0,0 +1,58 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { LookingUser } from '../store';
+
+// A matchmaking user as other clients may see it, without anything that
+// would let them act as that user. Only the interests a partner shares are shown, not all of them.
+export type PublicUser = Omit<LookingUser, 'tokenHash' | 'browserId' | 'blockedBrowserKeys' | 'ip' | 'interests'> & {
+  browserKey: string;
+};
+
+// Only a hash of each token is stored, so the store itself can't be used to act as a user
+export const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+// Issue a secret token for a newly registered user ID
+export const issueUserToken = () => {
+  const token = randomBytes(32).toString('hex');
+  return { token, tokenHash: hashToken(token) };
+};
+
+// A stable, one-way stand-in for a browser ID that clients can keep in their blocklists
+export const getBrowserKey = (browserId: string) => createHash('sha256').update(browserId).digest('hex');
+
+// Read the token from an `Authorization: Bearer <token>` header
+export const getRequestToken = (request: Request): string | null => {
+  const header = request.headers.get('authorization');
+  const match = header?.match(/^Bearer\s+([0-9a-f]{64})$/i);
+  return match ? match[1].toLowerCase() : null;
+};
+
+// Read a token sent in a request body, for requests that can't set headers like beacons
+export const parseToken = (value: unknown): string | null =>
+  typeof value === 'string' && /^[0-9a-f]{64}$/i.test(value) ? value.toLowerCase() : null;
+
+// Check that a token was issued for this user
+export const ownsUser = (user: LookingUser | undefined, token: string | null): boolean => {
+  if (!user?.tokenHash || !token) return false;
+
+  const expected = Buffer.from(user.tokenHash, 'hex');
+  const actual = Buffer.from(hashToken(token), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+// Whether a user is in a chat and, if partnerId is given, still chatting with that partner
+export const isInChat = (user: LookingUser | undefined, chatSessionId: string, partnerId?: string): boolean =>
+  !!user && user.chatSessionId === chatSessionId && (partnerId === undefined || user.matchedWith === partnerId);
+
+// Strip the token hash, browser ID, blocklist, IP and interests before sending a user to a client
+// The browser ID is replaced by its key, since bans and recent partners are kept by browser ID.
+export const toPublicUser = (user: LookingUser): PublicUser => {
+  const {
+    tokenHash: _tokenHash,
+    browserId,
+    blockedBrowserKeys: _blockedBrowserKeys,
+    ip: _ip,
+    interests: _interests,
+    ...publicUser
+  } = user;
+  return { ...publicUser, browserKey: getBrowserKey(browserId) };
+};
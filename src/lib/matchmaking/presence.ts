@@ -0,0 +1,35 @@
+import type { LookingUser, StoreData, StoreTopic } from '../store';
+import { endChat, getLeaveTopics } from './sessions';
+
+// Browsers send a heartbeat every 15 seconds while looking or chatting, and an open
+// event stream counts as one. Someone we haven't heard from in a minute has gone.
+const PRESENCE_TIMEOUT = 60 * 1000;
+
+// Record that a user is still here
+export const markSeen = (user: LookingUser, now: number = Date.now()) => {
+  user.lastSeenAt = now;
+};
+
+export const isAbsent = (user: LookingUser, now: number = Date.now()) =>
+  now - (user.lastSeenAt ?? user.timestamp) >= PRESENCE_TIMEOUT;
+
+// Remove users who stopped sending heartbeats, returning the topics that changed
+// Anyone left chatting with one of them is told their partner timed out. Nothing changed
+// if the list is empty.
+export const expireAbsentUsers = (data: StoreData, now: number = Date.now()): StoreTopic[] => {
+  const absent = data.lookingUsers.filter(user => isAbsent(user, now));
+
+  const topics = absent.flatMap(user => {
+    const partner = user.matchedWith ? data.lookingUsers.find(u => u.id === user.matchedWith) : undefined;
+    if (partner && !isAbsent(partner, now) && partner.matchedWith === user.id) {
+      endChat(data, user, partner, 'timed_out', now);
+      return getLeaveTopics(user, partner);
+    }
+    return getLeaveTopics(user);
+  });
+
+  if (absent.length > 0) {
+    data.lookingUsers = data.lookingUsers.filter(user => !isAbsent(user, now));
+  }
+  return topics;
+};
@@ -0,0 +1,41 @@
+import type { StoreData } from '../store';
+import { getQueue } from './matcher';
+
+// Matches made in this window set the match rate behind wait estimates
+const MATCH_RATE_WINDOW = 10 * 60 * 1000; // 10 minutes
+const MAX_MATCH_TIMES = 1000;
+
+// What a waiting user may know about the queue: only counts, never who is in it
+export interface QueueSummary {
+  position: number | null; // 1 is next in line; null if the user isn't looking
+  looking: number;
+  chatting: number;
+  estimatedWait: number | null; // Seconds, or null if nobody has been matched lately
+}
+
+// Where a user stands in the queue and how long they can expect to wait
+// Interest matching lets people skip ahead, so the position and wait are only a guide.
+export const getQueueSummary = (data: StoreData, userId: string, now: number = Date.now()): QueueSummary => {
+  const looking = getQueue(data);
+  const index = looking.findIndex(user => user.id === userId);
+  const position = index >= 0 ? index + 1 : null;
+
+  // Each match takes two people out of the queue
+  const recentMatches = data.matchTimes.filter(time => now - time < MATCH_RATE_WINDOW).length;
+  const estimatedWait = position !== null && recentMatches > 0
+    ? Math.round(Math.ceil(position / 2) * MATCH_RATE_WINDOW / recentMatches / 1000)
+    : null;
+
+  return {
+    position,
+    looking: looking.length,
+    chatting: data.lookingUsers.filter(user => user.status === 'matched').length,
+    estimatedWait,
+  };
+};
+
+export const cleanupMatchTimes = (data: StoreData, now: number = Date.now()) => {
+  data.matchTimes = data.matchTimes
+    .filter(time => now - time < MATCH_RATE_WINDOW)
+    .slice(-MAX_MATCH_TIMES);
+};
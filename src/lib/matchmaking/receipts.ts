@@ -0,0 +1,24 @@
+import type { ChatMessage, MessageReceipt, ReceiptStatus } from '../store';
+
+// How far a stored message has got
+export const getReceiptStatus = (message: ChatMessage): ReceiptStatus =>
+  message.readAt ? 'read' : message.deliveredAt ? 'delivered' : 'sent';
+
+// Receipts for the messages a user sent, skipping ones still only sent
+export const getReceipts = (messages: ChatMessage[], senderId: string): MessageReceipt[] =>
+  messages
+    .filter(message => message.senderId === senderId && message.deliveredAt)
+    .map(message => ({ messageId: message.id, status: getReceiptStatus(message) }));
+
+// Record that the receiver got or saw a message; reading implies delivery
+// Returns whether anything changed.
+export const acknowledgeMessage = (message: ChatMessage, status: 'delivered' | 'read', now: number = Date.now()) => {
+  const before = getReceiptStatus(message);
+
+  message.deliveredAt ??= now;
+  if (status === 'read') {
+    message.readAt ??= now;
+  }
+
+  return getReceiptStatus(message) !== before;
+};
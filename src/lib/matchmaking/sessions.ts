@@ -0,0 +1,72 @@
+import { userTopic, chatTopic, DisconnectReason, EndedChat, LookingUser, StoreData, StoreTopic } from '../store';
+import { rememberPartners } from './matcher';
+
+// How long to remember why a chat ended, matching how long its messages are kept
+const ENDED_CHAT_RETENTION = 60 * 60 * 1000; // 1 hour
+const MAX_ENDED_CHATS = 1000;
+
+// Reasons a user may give for leaving; timed_out and banned are only decided by the server
+export const LEAVE_REASONS: DisconnectReason[] = ['skipped', 'closed'];
+
+// End the chat of a user who is leaving, taking their partner out of it and recording why
+// The partner isn't put back in the queue; their browser tells them the stranger left and
+// waits for them to look for someone new.
+export const endChat = (
+  data: StoreData,
+  leaver: LookingUser,
+  partner: LookingUser,
+  reason: DisconnectReason,
+  now: number = Date.now()
+) => {
+  // Keep them apart for a while counted from when they split, not when they met
+  rememberPartners(data, leaver, partner, now);
+
+  partner.matchedWith = undefined;
+  partner.sharedInterests = undefined;
+  partner.status = 'disconnected';
+
+  const chatSessionId = partner.chatSessionId || leaver.chatSessionId;
+  if (chatSessionId) {
+    data.endedChats.push({ chatSessionId, userId: leaver.id, reason, endedAt: now });
+  }
+};
+
+// What a user leaving changes: their entry and their partner's, their chat, and the queue
+export const getLeaveTopics = (user: LookingUser, partner?: LookingUser): StoreTopic[] => {
+  const chatSessionId = partner?.chatSessionId || user.chatSessionId;
+  return [
+    userTopic(user.id),
+    ...(partner ? [userTopic(partner.id)] : []),
+    ...(chatSessionId ? [chatTopic(chatSessionId)] : []),
+    'queue'
+  ];
+};
+
+// Take a user out of matchmaking, ending their chat if they're in one
+// Returns the topics the change concerns.
+export const leaveMatchmaking = (
+  data: StoreData,
+  user: LookingUser,
+  reason: DisconnectReason,
+  now: number = Date.now()
+): StoreTopic[] => {
+  const partner = user.matchedWith ? data.lookingUsers.find(u => u.id === user.matchedWith) : undefined;
+  const topics = getLeaveTopics(user, partner);
+  if (partner) {
+    console.log(`[Matchmaking API] User ${user.id.substring(0, 6)}... disconnecting from ${partner.id.substring(0, 6)}... (${reason})`);
+    endChat(data, user, partner, reason, now);
+  }
+
+  data.lookingUsers = data.lookingUsers.filter(u => u.id !== user.id);
+  return topics;
+};
+
+// Why the partner of userId left the chat, if they did
+export const getPartnerLeft = (data: StoreData, chatSessionId: string, userId: string): EndedChat | undefined =>
+  data.endedChats.find(ended => ended.chatSessionId === chatSessionId && ended.userId !== userId);
+
+export const cleanupEndedChats = (data: StoreData, now: number = Date.now()) => {
+  data.endedChats = data.endedChats
+    .filter(ended => now - ended.endedAt < ENDED_CHAT_RETENTION)
+    .slice(-MAX_ENDED_CHATS);
+};
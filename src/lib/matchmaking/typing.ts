@@ -0,0 +1,27 @@
+import type { StoreData, TypingState } from '../store';
+
+// A typing signal counts for this long unless it's refreshed
+const TYPING_TTL = 5 * 1000;
+
+// Whether a typing state is current
+export const isTyping = (state: TypingState | undefined, now: number = Date.now()) =>
+  !!state?.typing && now - state.timestamp < TYPING_TTL;
+
+// The partner's typing state in a chat, if they've sent one
+export const getPartnerTyping = (data: StoreData, chatSessionId: string, userId: string) =>
+  data.typing.find(state => state.chatSessionId === chatSessionId && state.userId !== userId);
+
+// Record whether a user is typing, replacing their previous state
+export const setTyping = (data: StoreData, chatSessionId: string, userId: string, typing: boolean, now: number = Date.now()) => {
+  clearTyping(data, chatSessionId, userId);
+  data.typing.push({ chatSessionId, userId, typing, timestamp: now });
+};
+
+export const clearTyping = (data: StoreData, chatSessionId: string, userId: string) => {
+  data.typing = data.typing.filter(state => !(state.userId === userId && state.chatSessionId === chatSessionId));
+};
+
+// Drop typing states nobody has refreshed
+export const cleanupTyping = (data: StoreData, now: number = Date.now()) => {
+  data.typing = data.typing.filter(state => now - state.timestamp < TYPING_TTL);
+};
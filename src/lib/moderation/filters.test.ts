@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createDefaultFilters,
+  createLinkFilter,
+  createMaxLengthFilter,
+  createRepeatFilter,
+  createWordlistFilter,
+  FilterContext,
+  FilterConfig,
+  getTrippedFilters,
+  MessageFilter,
+  normalizeLeetSpeak,
+  runFilters,
+} from './filters';
+
+const NOW = 1_000_000_000;
+
+const context = (fields: Partial<FilterContext> = {}): FilterContext => ({
+  now: NOW,
+  recentMessages: [],
+  ...fields,
+});
+
+const config: FilterConfig = {
+  maxLength: 20,
+  blockedWords: ['bad'],
+  linkDelaySeconds: 30,
+  repeatWindowSeconds: 60,
+  maxRepeats: 2,
+};
+
+describe('filters', () => {
+  it('rejects messages over the length limit', () => {
+    const filter = createMaxLengthFilter(5);
+
+    expect(filter('hello', context())).toBeNull();
+    expect(filter('hello!', context())).toMatchObject({ action: 'reject', filter: 'max_length' });
+  });
+
+  it('masks blocked words, including leet-speak and spaced-out spellings', () => {
+    const filter = createWordlistFilter([normalizeLeetSpeak('bad')]);
+
+    expect(filter('you are b4d', context())).toMatchObject({ action: 'mask', content: 'you are ***' });
+    expect(filter('so b.a.d', context())?.content).toBe('so *****');
+    expect(filter('BAD idea', context())?.content).toBe('*** idea');
+  });
+
+  it('only masks whole words', () => {
+    const filter = createWordlistFilter(['ass']);
+
+    expect(filter('first class', context())).toBeNull();
+    expect(filter('you ass', context())?.content).toBe('you ***');
+  });
+
+  it('rejects links until the chat has gone on long enough', () => {
+    const filter = createLinkFilter(30);
+    const chatStartedAt = NOW - 10 * 1000;
+
+    expect(filter('see https://example.org', context({ chatStartedAt }))).toMatchObject({ action: 'reject', filter: 'links' });
+    expect(filter('try example.com', context({ chatStartedAt }))?.reason).toContain('20s to go');
+    expect(filter('see https://example.org', context({ chatStartedAt: NOW - 30 * 1000 }))).toBeNull();
+    expect(filter('no links here', context({ chatStartedAt }))).toBeNull();
+    expect(createLinkFilter(0)('see https://example.org', context({ chatStartedAt }))).toBeNull();
+  });
+
+  it('flags the first repeat of a message and rejects the next', () => {
+    const filter = createRepeatFilter(60, 2);
+    const sent = (content: string, secondsAgo: number) => ({ content, timestamp: NOW - secondsAgo * 1000 });
+
+    expect(filter('hi', context())).toBeNull();
+    expect(filter('hi', context({ recentMessages: [sent('HI ', 10)] }))).toMatchObject({ action: 'flag', filter: 'repeat' });
+    expect(filter('hi', context({ recentMessages: [sent('hi', 20), sent('h1', 10)] }))).toMatchObject({ action: 'reject', filter: 'repeat' });
+
+    // Only repeats within the window count
+    expect(filter('hi', context({ recentMessages: [sent('hi', 120), sent('hi', 90)] }))).toBeNull();
+  });
+});
+
+describe('runFilters', () => {
+  it('lets clean messages through unchanged', () => {
+    expect(runFilters('hello there', context(), createDefaultFilters(config))).toEqual({ content: 'hello there', rejection: null });
+  });
+
+  it('passes masked content on to later filters and stops at the first rejection', () => {
+    const seen: string[] = [];
+    const recorder: MessageFilter = content => {
+      seen.push(content);
+      return null;
+    };
+    const rejecter: MessageFilter = () => ({ action: 'reject', filter: 'test', reason: 'No.' });
+
+    const outcome = runFilters('bad words', context(), [createWordlistFilter(['bad']), recorder, rejecter, recorder]);
+
+    expect(seen).toEqual(['*** words']);
+    expect(outcome.rejection).toEqual({ code: 'message_rejected', filter: 'test', reason: 'No.' });
+  });
+
+  it('sends flagged messages as they are', () => {
+    const outcome = runFilters('hi', context({ recentMessages: [{ content: 'hi', timestamp: NOW }] }), createDefaultFilters(config));
+
+    expect(outcome).toEqual({ content: 'hi', rejection: null });
+  });
+});
+
+describe('getTrippedFilters', () => {
+  it('names every filter a received message trips', () => {
+    const tripped = getTrippedFilters('bad https://example.org', context({ chatStartedAt: NOW }), createDefaultFilters(config));
+
+    expect(tripped).toEqual(['max_length', 'wordlist', 'links']);
+  });
+
+  it('reports flagged repeats as well as messages a filter would have stopped', () => {
+    const filters = createDefaultFilters(config);
+    const earlier = { content: 'hi', timestamp: NOW };
+
+    expect(getTrippedFilters('hi', context(), filters)).toEqual([]);
+    expect(getTrippedFilters('hi', context({ recentMessages: [earlier] }), filters)).toEqual(['repeat']);
+  });
+});
@@ -0,0 +1,173 @@
+// Content filters for chat messages
+// Messages are end-to-end encrypted, so filters that read the text run in the browsers: the
+// sender's before encryption, and the receiver's after decryption. A modified client can skip
+// its own filters, but the receiver's browser reports any message that trips one.
+// The server only enforces the length cap, on the ciphertext.
+// This module has no Node dependencies so both sides can import it.
+
+// What a filter decided about a message
+// reject: don't send it; mask: send it with parts hidden; flag: send it, reported by the receiver
+export type FilterAction = 'reject' | 'mask' | 'flag';
+
+export interface FilterResult {
+  action: FilterAction;
+  filter: string;
+  reason: string;
+  content?: string; // Replacement content, for mask
+}
+
+// What a filter knows about the chat besides the message itself
+export interface FilterContext {
+  now: number;
+  chatStartedAt?: number;
+  recentMessages: { content: string; timestamp: number }[]; // The sender's earlier messages in this chat
+}
+
+// A filter returns null to let the message through untouched
+export type MessageFilter = (content: string, context: FilterContext) => FilterResult | null;
+
+// A message that wasn't sent, as returned by the chain or the messages API
+export interface MessageRejection {
+  code: 'message_rejected';
+  filter: string;
+  reason: string;
+}
+
+export interface FilterOutcome {
+  content: string;
+  rejection: MessageRejection | null;
+}
+
+export interface FilterConfig {
+  maxLength: number;
+  blockedWords: string[];
+  linkDelaySeconds: number;
+  repeatWindowSeconds: number;
+  maxRepeats: number;
+}
+
+// Defaults, overridable with NEXT_PUBLIC_OMESTR_MAX_MESSAGE_LENGTH, NEXT_PUBLIC_OMESTR_BLOCKED_WORDS
+// (comma-separated) and NEXT_PUBLIC_OMESTR_LINK_DELAY_SECONDS
+const DEFAULT_MAX_LENGTH = 2000;
+const DEFAULT_LINK_DELAY_SECONDS = 30;
+const DEFAULT_REPEAT_WINDOW_SECONDS = 60;
+const DEFAULT_MAX_REPEATS = 2;
+
+const getNumberSetting = (value: string | undefined, fallback: number) => {
+  if (!value) return fallback;
+
+  const configured = Number(value);
+  return Number.isFinite(configured) && configured >= 0 ? configured : fallback;
+};
+
+// Next.js only inlines NEXT_PUBLIC_ variables into client bundles when they're read by name
+export const getFilterConfig = (): FilterConfig => ({
+  maxLength: getNumberSetting(process.env.NEXT_PUBLIC_OMESTR_MAX_MESSAGE_LENGTH, DEFAULT_MAX_LENGTH) || DEFAULT_MAX_LENGTH,
+  blockedWords: (process.env.NEXT_PUBLIC_OMESTR_BLOCKED_WORDS || '')
+    .split(',')
+    .map(word => normalizeLeetSpeak(word.trim()))
+    .filter(Boolean),
+  linkDelaySeconds: getNumberSetting(process.env.NEXT_PUBLIC_OMESTR_LINK_DELAY_SECONDS, DEFAULT_LINK_DELAY_SECONDS),
+  repeatWindowSeconds: DEFAULT_REPEAT_WINDOW_SECONDS,
+  maxRepeats: DEFAULT_MAX_REPEATS,
+});
+
+const LEET_SUBSTITUTIONS: Record<string, string> = {
+  '0': 'o', '1': 'i', '!': 'i', '|': 'i', '3': 'e', '4': 'a', '@': 'a',
+  '5': 's', '$': 's', '7': 't', '+': 't', '8': 'b', '9': 'g',
+};
+
+// Lowercase and undo common leet-speak substitutions, e.g. "h3ll0" -> "hello"
+export const normalizeLeetSpeak = (text: string) =>
+  text.toLowerCase().replace(/./g, char => LEET_SUBSTITUTIONS[char] ?? char);
+
+const LINK_PATTERN = /(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|net|org|io|gg|me|co|ly|xyz|ru|tk)\b/i;
+
+export const createMaxLengthFilter = (maxLength: number): MessageFilter => (content) =>
+  content.length > maxLength
+    ? { action: 'reject', filter: 'max_length', reason: `Messages can be at most ${maxLength} characters.` }
+    : null;
+
+// Mask blocked words, matching them after leet-speak normalisation and ignoring
+// characters put between letters to dodge the filter, e.g. "b.a.d"
+export const createWordlistFilter = (blockedWords: string[]): MessageFilter => (content) => {
+  if (blockedWords.length === 0) return null;
+
+  let masked = content;
+  blockedWords.forEach(word => {
+    // Each letter of the word may be written as itself or any leet character for it,
+    // followed by up to two separator characters
+    const letters = Array.from(word).map(letter => {
+      const variants = Object.keys(LEET_SUBSTITUTIONS).filter(leet => LEET_SUBSTITUTIONS[leet] === letter);
+      const escaped = [letter, ...variants].map(char => char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+      return `(?:${escaped.join('|')})`;
+    });
+    // Only whole words, so "class" isn't masked for containing a shorter blocked word
+    const pattern = new RegExp(`(?<![a-z])${letters.join('[\\s._*-]{0,2}')}(?![a-z])`, 'gi');
+    masked = masked.replace(pattern, match => '*'.repeat(match.length));
+  });
+
+  return masked !== content
+    ? { action: 'mask', filter: 'wordlist', reason: 'Some words were hidden.', content: masked }
+    : null;
+};
+
+// Strangers can't send links until the chat has been going for a while
+export const createLinkFilter = (delaySeconds: number): MessageFilter => (content, context) => {
+  if (!delaySeconds || !context.chatStartedAt) return null;
+
+  const remaining = Math.ceil(delaySeconds - (context.now - context.chatStartedAt) / 1000);
+  return remaining > 0 && LINK_PATTERN.test(content)
+    ? { action: 'reject', filter: 'links', reason: `Links can be sent once you've chatted for ${delaySeconds} seconds (${remaining}s to go).` }
+    : null;
+};
+
+// Flag the first repeat of a message within the window, and reject it once it was sent maxRepeats times
+export const createRepeatFilter = (windowSeconds: number, maxRepeats: number): MessageFilter => (content, context) => {
+  const normalized = normalizeLeetSpeak(content.trim()).replace(/\s+/g, ' ');
+  const repeats = context.recentMessages.filter(message =>
+    context.now - message.timestamp < windowSeconds * 1000 &&
+    normalizeLeetSpeak(message.content.trim()).replace(/\s+/g, ' ') === normalized
+  ).length;
+
+  if (repeats >= maxRepeats) {
+    return { action: 'reject', filter: 'repeat', reason: "You've already sent that. Try saying something else." };
+  }
+  return repeats > 0 ? { action: 'flag', filter: 'repeat', reason: 'Repeated message' } : null;
+};
+
+export const createDefaultFilters = (config: FilterConfig = getFilterConfig()): MessageFilter[] => [
+  createMaxLengthFilter(config.maxLength),
+  createWordlistFilter(config.blockedWords),
+  createLinkFilter(config.linkDelaySeconds),
+  createRepeatFilter(config.repeatWindowSeconds, config.maxRepeats),
+];
+
+// Run a message through each filter in turn, before sending it
+// Masks feed into later filters; the first rejection stops the chain. Flags don't change what's
+// sent, since the receiver's browser reports them.
+export const runFilters = (content: string, context: FilterContext, filters: MessageFilter[] = createDefaultFilters()): FilterOutcome => {
+  let current = content;
+
+  for (const filter of filters) {
+    const result = filter(current, context);
+    if (!result) continue;
+
+    if (result.action === 'reject') {
+      return { content: current, rejection: { code: 'message_rejected', filter: result.filter, reason: result.reason } };
+    }
+    if (result.action === 'mask' && result.content !== undefined) {
+      current = result.content;
+    }
+  }
+
+  return { content: current, rejection: null };
+};
+
+// The filters a received message trips, whatever each would have done to it
+// A received message that trips any filter was either flagged or sent by a client that skipped
+// its filters, so the receiver's browser reports it.
+export const getTrippedFilters = (content: string, context: FilterContext, filters: MessageFilter[] = createDefaultFilters()): string[] =>
+  Array.from(new Set(filters
+    .map(filter => filter(content, context)?.filter)
+    .filter((name): name is string => !!name)));
@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createEmptyData, LookingUser, StoreData } from '../store';
+import { applyBan, cleanupExpiredBans, createBan, findActiveBan, isAdminRequest } from '.';
+
+const NOW = 1_000_000_000;
+const MINUTE = 60 * 1000;
+
+const createUser = (id: string, fields: Partial<LookingUser> = {}): LookingUser => ({
+  id,
+  pubkey: id.padEnd(64, '0'),
+  sessionId: `session-${id}`,
+  browserId: `browser-${id}`,
+  timestamp: NOW,
+  lookingSince: NOW,
+  status: 'looking',
+  ...fields,
+});
+
+const createData = (...users: LookingUser[]): StoreData => ({ ...createEmptyData(), lookingUsers: users });
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('findActiveBan', () => {
+  it('matches bans on browser, key or IP until they expire', () => {
+    const data = createData();
+    data.bans.push(
+      createBan('browserId', 'browser-a', 10 * MINUTE, undefined, NOW),
+      createBan('pubkey', 'pubkey-b', 10 * MINUTE, undefined, NOW),
+      createBan('ip', '1.2.3.4', 10 * MINUTE, undefined, NOW),
+    );
+
+    expect(findActiveBan(data, { browserId: 'browser-a' }, NOW)?.type).toBe('browserId');
+    expect(findActiveBan(data, { browserId: 'browser-x', pubkey: 'pubkey-b' }, NOW)?.type).toBe('pubkey');
+    expect(findActiveBan(data, { browserId: 'browser-x', ip: '1.2.3.4' }, NOW)?.type).toBe('ip');
+    expect(findActiveBan(data, { browserId: 'browser-x', pubkey: 'pubkey-x', ip: '5.6.7.8' }, NOW)).toBeNull();
+
+    expect(findActiveBan(data, { browserId: 'browser-a' }, NOW + 10 * MINUTE)).toBeNull();
+  });
+
+  it('returns the ban that runs longest when several apply', () => {
+    const data = createData();
+    const short = createBan('browserId', 'browser-a', MINUTE, undefined, NOW);
+    const long = createBan('ip', '1.2.3.4', 60 * MINUTE, undefined, NOW);
+    data.bans.push(short, long);
+
+    expect(findActiveBan(data, { browserId: 'browser-a', ip: '1.2.3.4' }, NOW)).toBe(long);
+  });
+
+  it("doesn't match an IP ban when the request's IP isn't known", () => {
+    const data = createData();
+    data.bans.push(createBan('ip', '1.2.3.4', MINUTE, undefined, NOW));
+
+    expect(findActiveBan(data, { browserId: 'browser-a' }, NOW)).toBeNull();
+  });
+});
+
+describe('cleanupExpiredBans', () => {
+  it('drops only the bans that have ended', () => {
+    const data = createData();
+    const ended = createBan('browserId', 'browser-a', MINUTE, undefined, NOW);
+    const running = createBan('browserId', 'browser-b', 10 * MINUTE, undefined, NOW);
+    data.bans.push(ended, running);
+
+    cleanupExpiredBans(data, NOW + MINUTE);
+
+    expect(data.bans).toEqual([running]);
+  });
+});
+
+describe('applyBan', () => {
+  it('removes banned users and tells their partners why the chat ended', () => {
+    const banned = createUser('a', { status: 'matched', matchedWith: 'b', chatSessionId: 'chat' });
+    const partner = createUser('b', { status: 'matched', matchedWith: 'a', chatSessionId: 'chat' });
+    const bystander = createUser('c');
+    const data = createData(banned, partner, bystander);
+
+    const removed = applyBan(data, createBan('pubkey', banned.pubkey, MINUTE, 'spam', NOW));
+
+    expect(removed.map(user => user.id)).toEqual(['a']);
+    expect(data.lookingUsers.map(user => user.id)).toEqual(['b', 'c']);
+    expect(partner).toMatchObject({ status: 'disconnected', matchedWith: undefined });
+    expect(data.endedChats).toEqual([expect.objectContaining({ chatSessionId: 'chat', userId: 'a', reason: 'banned' })]);
+    expect(data.bans).toHaveLength(1);
+  });
+
+  it('removes every user on a banned IP', () => {
+    const data = createData(
+      createUser('a', { ip: '1.2.3.4' }),
+      createUser('b', { ip: '1.2.3.4' }),
+      createUser('c', { ip: '5.6.7.8' }),
+    );
+
+    const removed = applyBan(data, createBan('ip', '1.2.3.4', MINUTE, undefined, NOW));
+
+    expect(removed.map(user => user.id)).toEqual(['a', 'b']);
+    expect(data.lookingUsers.map(user => user.id)).toEqual(['c']);
+  });
+});
+
+describe('isAdminRequest', () => {
+  const withAuthorization = (value?: string) =>
+    new Request('http://localhost/api/admin', { headers: value ? { authorization: value } : {} });
+
+  it('only accepts the configured admin token', () => {
+    vi.stubEnv('OMESTR_ADMIN_TOKEN', 'secret');
+
+    expect(isAdminRequest(withAuthorization('Bearer secret'))).toBe(true);
+    expect(isAdminRequest(withAuthorization('Bearer wrong'))).toBe(false);
+    expect(isAdminRequest(withAuthorization('secret'))).toBe(false);
+    expect(isAdminRequest(withAuthorization())).toBe(false);
+  });
+
+  it('rejects everything when no admin token is configured', () => {
+    vi.stubEnv('OMESTR_ADMIN_TOKEN', '');
+
+    expect(isAdminRequest(withAuthorization('Bearer '))).toBe(false);
+  });
+});
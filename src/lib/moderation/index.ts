@@ -0,0 +1,80 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { Ban, BanType, LookingUser, StoreData } from '../store';
+import { endChat } from '../matchmaking/sessions';
+
+export const BAN_TYPES: BanType[] = ['browserId', 'pubkey', 'ip'];
+
+// The admin API is turned off unless OMESTR_ADMIN_TOKEN is set
+export const isAdminEnabled = () => !!process.env.OMESTR_ADMIN_TOKEN;
+
+// Check the `Authorization: Bearer <token>` header against OMESTR_ADMIN_TOKEN
+// Both sides are hashed first so the comparison doesn't leak the token's length.
+export const isAdminRequest = (request: Request): boolean => {
+  const adminToken = process.env.OMESTR_ADMIN_TOKEN;
+  if (!adminToken) return false;
+
+  const match = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  const expected = createHash('sha256').update(adminToken).digest();
+  const actual = createHash('sha256').update(match[1].trim()).digest();
+  return timingSafeEqual(expected, actual);
+};
+
+// Generate a random ID for a ban
+const generateBanId = (): string => {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let result = '';
+  for (let i = 0; i < 12; i++) {
+    result += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return result;
+};
+
+export const createBan = (type: BanType, value: string, durationMs: number, reason?: string, now: number = Date.now()): Ban => ({
+  id: generateBanId(),
+  type,
+  value,
+  reason,
+  createdAt: now,
+  expiresAt: now + durationMs,
+});
+
+// The identifiers of a user, or of a request to register one, that bans can match
+export interface BanTarget {
+  browserId?: string;
+  pubkey?: string;
+  ip?: string;
+}
+
+const matchesBan = (ban: Ban, target: BanTarget) => target[ban.type] === ban.value;
+
+// The longest-running ban that applies to this target, if any
+export const findActiveBan = (data: StoreData, target: BanTarget, now: number = Date.now()): Ban | null =>
+  data.bans
+    .filter(ban => ban.expiresAt > now && matchesBan(ban, target))
+    .sort((a, b) => b.expiresAt - a.expiresAt)[0] || null;
+
+export const cleanupExpiredBans = (data: StoreData, now: number = Date.now()) => {
+  data.bans = data.bans.filter(ban => ban.expiresAt > now);
+};
+
+// Add a ban and remove everyone it applies to from matchmaking straight away
+// Their partners are told they were banned. Returns the removed users.
+export const applyBan = (data: StoreData, ban: Ban): LookingUser[] => {
+  data.bans.push(ban);
+
+  const banned = data.lookingUsers.filter(user => matchesBan(ban, user));
+  const bannedIds = new Set(banned.map(user => user.id));
+
+  // Tell anyone chatting with a banned user why they left
+  data.lookingUsers.forEach(user => {
+    if (user.matchedWith && bannedIds.has(user.matchedWith) && !bannedIds.has(user.id)) {
+      const bannedPartner = banned.find(partner => partner.id === user.matchedWith)!;
+      endChat(data, bannedPartner, user, 'banned');
+    }
+  });
+
+  data.lookingUsers = data.lookingUsers.filter(user => !bannedIds.has(user.id));
+  return banned;
+};
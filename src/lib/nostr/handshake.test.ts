@@ -0,0 +1,208 @@
+import type { Event } from 'nostr-tools';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMatchHandshake, HandshakeStatus, MatchHandshake } from './handshake';
+
+const PROPOSAL_TIMEOUT = 5000;
+
+// Pubkeys that sort in alphabetical order, so `a` always proposes to `b`
+const pubkeyFor = (name: string) => name.repeat(64);
+
+type Sent = { from: string; status: HandshakeStatus; to?: string; event: Event };
+
+// Clients on a shared relay, which passes every event to everyone once delivered
+// `drop` loses events in transit, like a relay that never got them.
+const createNetwork = () => {
+  const clients = new Map<string, MatchHandshake>();
+  const matches = new Map<string, string>();
+  const lost: string[] = [];
+  const sent: Sent[] = [];
+  let pending: Sent[] = [];
+  let drop: (sent: Sent) => boolean = () => false;
+
+  const toEvent = (from: string, status: HandshakeStatus, to?: string): Event => ({
+    id: `${from}-${status}-${sent.length}`,
+    pubkey: pubkeyFor(from),
+    created_at: Math.floor(Date.now() / 1000),
+    kind: 30078,
+    tags: [
+      ['status', status],
+      ['session', `session-${from}`],
+      ['browser_id', `browser-${from}`],
+      ...(to ? [['p', pubkeyFor(to)]] : []),
+    ],
+    content: '',
+    sig: '',
+  });
+
+  const join = (name: string) => {
+    const handshake = createMatchHandshake({
+      publicKey: pubkeyFor(name),
+      browserInstanceId: `browser-${name}`,
+      send: async (status, targetPubkey) => {
+        const to = targetPubkey?.charAt(0);
+        const message = { from: name, status, to, event: toEvent(name, status, to) };
+        sent.push(message);
+        pending.push(message);
+      },
+      onMatched: partnerPubkey => matches.set(name, partnerPubkey.charAt(0)),
+      onMatchLost: () => {
+        matches.delete(name);
+        lost.push(name);
+      },
+      proposalTimeout: PROPOSAL_TIMEOUT,
+    });
+    clients.set(name, handshake);
+    return handshake;
+  };
+
+  // Pass on everything sent so far, and anything sent in reply, until the relay is quiet
+  const deliver = () => {
+    while (pending.length > 0) {
+      const batch = pending;
+      pending = [];
+      batch.forEach(message => {
+        if (drop(message)) return;
+        clients.forEach(client => client.handleEvent(message.event));
+      });
+    }
+  };
+
+  return {
+    join,
+    deliver,
+    matches,
+    lost,
+    sent,
+    state: (name: string) => clients.get(name)!.getState(),
+    replay: (message: Sent) => clients.forEach(client => client.handleEvent(message.event)),
+    dropWhen: (rule: (sent: Sent) => boolean) => {
+      drop = rule;
+    },
+  };
+};
+
+// Every match is known to both sides
+const expectSymmetric = (matches: Map<string, string>) => {
+  matches.forEach((partner, name) => expect(matches.get(partner)).toBe(name));
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(1_000_000_000);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createMatchHandshake', () => {
+  it('matches two looking clients with each other', () => {
+    const network = createNetwork();
+    network.join('a').start();
+    network.join('b').start();
+
+    network.deliver();
+
+    expect(network.matches).toEqual(new Map([['a', 'b'], ['b', 'a']]));
+    expect(network.sent.map(({ from, status }) => `${from}:${status}`))
+      .toEqual(['a:looking', 'b:looking', 'a:propose', 'b:accept', 'a:confirm']);
+  });
+
+  it('accepts only one of two proposals made at the same time', () => {
+    const network = createNetwork();
+    network.join('c').start();
+    network.deliver();
+    vi.advanceTimersByTime(1000);
+    network.join('a').start();
+    network.join('b').start();
+    // Both are sent c's stored announcement as they subscribe
+    network.replay(network.sent[0]);
+
+    network.deliver();
+
+    // Both propose to c, who waited longest; b is turned down and keeps looking
+    expect(network.sent.filter(({ status }) => status === 'propose').map(({ from, to }) => `${from}>${to}`))
+      .toEqual(['a>c', 'b>c']);
+    expect(network.matches).toEqual(new Map([['a', 'c'], ['c', 'a']]));
+    expect(network.state('b')).toBe('looking');
+  });
+
+  it('keeps every pair symmetric however many clients look at once', () => {
+    const network = createNetwork();
+    'abcdefgh'.split('').forEach((name, i) => {
+      network.join(name).start();
+      vi.advanceTimersByTime(i * 100);
+    });
+
+    network.deliver();
+    vi.advanceTimersByTime(PROPOSAL_TIMEOUT);
+    network.deliver();
+
+    expect(network.matches.size).toBe(8);
+    expectSymmetric(network.matches);
+  });
+
+  it('tells the proposer when the confirm was lost and the acceptor gave up', () => {
+    const network = createNetwork();
+    network.dropWhen(({ status }) => status === 'confirm');
+    network.join('a').start();
+    network.join('b').start();
+    network.deliver();
+
+    expect(network.state('a')).toBe('matched');
+    expect(network.state('b')).toBe('accepting');
+
+    network.dropWhen(() => false);
+    vi.advanceTimersByTime(PROPOSAL_TIMEOUT);
+    network.deliver();
+
+    expect(network.sent).toContainEqual(expect.objectContaining({ from: 'b', status: 'reject', to: 'a' }));
+    expect(network.lost).toEqual(['a']);
+    expectSymmetric(network.matches);
+  });
+
+  it('drops a match once the partner is looking again, even if their reject was lost', () => {
+    const network = createNetwork();
+    network.dropWhen(({ status }) => status === 'confirm' || status === 'reject');
+    network.join('a').start();
+    network.join('b').start();
+    network.deliver();
+
+    vi.advanceTimersByTime(PROPOSAL_TIMEOUT);
+    network.deliver();
+
+    expect(network.lost).toEqual(['a']);
+    expect(network.matches.has('a')).toBe(false);
+  });
+
+  it('ignores a partner announcement sent before the match', () => {
+    const network = createNetwork();
+    network.join('a').start();
+    network.join('b').start();
+    network.deliver();
+    expect(network.state('a')).toBe('matched');
+
+    // A relay passes on b's first announcement late
+    vi.advanceTimersByTime(2000);
+    network.replay(network.sent.find(({ from, status }) => from === 'b' && status === 'looking')!);
+
+    expect(network.state('a')).toBe('matched');
+    expect(network.lost).toEqual([]);
+  });
+
+  it('rejects the peer and looks again when a proposal goes unanswered', () => {
+    const network = createNetwork();
+    network.dropWhen(({ from, status }) => from === 'b' && status === 'accept');
+    network.join('a').start();
+    network.join('b').start();
+    network.deliver();
+    expect(network.state('a')).toBe('proposing');
+
+    vi.advanceTimersByTime(PROPOSAL_TIMEOUT);
+    network.deliver();
+
+    expect(network.sent).toContainEqual(expect.objectContaining({ from: 'a', status: 'reject', to: 'b' }));
+    expect(network.sent).toContainEqual(expect.objectContaining({ from: 'b', status: 'reject', to: 'a' }));
+    expect(network.matches.size).toBe(0);
+  });
+});
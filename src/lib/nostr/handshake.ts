@@ -0,0 +1,293 @@
+import type { Event } from 'nostr-tools';
+import { logger } from './logger';
+
+// Matchmaking event statuses used by the handshake
+// looking -> propose -> accept -> confirm, with reject at any point
+export type HandshakeStatus = 'looking' | 'propose' | 'accept' | 'confirm' | 'reject';
+
+// Where this client is in the handshake
+export type HandshakeState = 'idle' | 'looking' | 'proposing' | 'accepting' | 'matched';
+
+// How long to wait for the other side before giving up on a proposal or accept
+const DEFAULT_PROPOSAL_TIMEOUT = 5000;
+
+// How long a "looking" event keeps someone in our candidate list
+const DEFAULT_CANDIDATE_TTL = 60 * 1000;
+
+// How long to skip a peer after a failed handshake with them
+const DEFAULT_RETRY_COOLDOWN = 30 * 1000;
+
+// How often to re-announce that we're looking
+const DEFAULT_LOOKING_REFRESH_INTERVAL = 30 * 1000;
+
+export interface HandshakeOptions {
+  publicKey: string;
+  browserInstanceId: string;
+  // Publish a matchmaking event with the given status, addressed to targetPubkey
+  send: (status: HandshakeStatus, targetPubkey?: string) => Promise<unknown>;
+  // Called once both sides have agreed on the match
+  onMatched: (partnerPubkey: string, partnerSessionId: string) => void;
+  // Called if the partner rejects a match we already considered confirmed, or announces
+  // they're looking again
+  onMatchLost?: (partnerPubkey: string) => void;
+  proposalTimeout?: number;
+  candidateTtl?: number;
+  retryCooldown?: number;
+  lookingRefreshInterval?: number;
+}
+
+// What the handshake reads from a matchmaking event: a signed `looking` announcement, or
+// the rumor inside a gift-wrapped handshake message
+export type HandshakeEvent = Pick<Event, 'pubkey' | 'created_at' | 'tags'>;
+
+export interface MatchHandshake {
+  start: () => void;
+  stop: () => void;
+  handleEvent: (event: HandshakeEvent) => void;
+  getState: () => HandshakeState;
+}
+
+const getTag = (event: HandshakeEvent, name: string) => event.tags.find(tag => tag[0] === name)?.[1];
+
+// Create a matchmaking handshake for one session keypair
+// The lower pubkey of a pair always proposes, so two looking clients never
+// propose to each other at the same time, and a client that is already
+// proposing, accepting or matched rejects every other proposal.
+export const createMatchHandshake = (options: HandshakeOptions): MatchHandshake => {
+  const {
+    publicKey,
+    browserInstanceId,
+    send,
+    onMatched,
+    onMatchLost,
+    proposalTimeout = DEFAULT_PROPOSAL_TIMEOUT,
+    candidateTtl = DEFAULT_CANDIDATE_TTL,
+    retryCooldown = DEFAULT_RETRY_COOLDOWN,
+    lookingRefreshInterval = DEFAULT_LOOKING_REFRESH_INTERVAL,
+  } = options;
+
+  let state: HandshakeState = 'idle';
+
+  // The peer we're proposing to, accepting, or matched with
+  let peer: string | null = null;
+  let peerSessionId = '';
+  let matchedAt = 0;
+
+  let pendingTimeout: ReturnType<typeof setTimeout> | null = null;
+  let refreshInterval: ReturnType<typeof setInterval> | null = null;
+
+  // Looking peers we could propose to, and peers to skip for a while
+  const candidates = new Map<string, { sessionId: string; seenAt: number }>();
+  const cooldowns = new Map<string, number>();
+
+  const publish = (status: HandshakeStatus, targetPubkey?: string) => {
+    send(status, targetPubkey).catch(error => {
+      logger.error('Failed to publish handshake event', { status, error });
+    });
+  };
+
+  const clearPending = () => {
+    if (pendingTimeout) {
+      clearTimeout(pendingTimeout);
+      pendingTimeout = null;
+    }
+  };
+
+  const waitForPeer = () => {
+    clearPending();
+    pendingTimeout = setTimeout(() => {
+      logger.info('Handshake timed out', {
+        state,
+        peer: peer?.substring(0, 8)
+      });
+
+      // Our confirm or their accept may still arrive, or already have, so tell them we gave up
+      if (peer) {
+        publish('reject', peer);
+      }
+      backToLooking();
+    }, proposalTimeout);
+  };
+
+  // Drop the current peer and go back to looking for someone else
+  const backToLooking = () => {
+    clearPending();
+
+    if (peer) {
+      cooldowns.set(peer, Date.now() + retryCooldown);
+      candidates.delete(peer);
+    }
+
+    peer = null;
+    peerSessionId = '';
+    matchedAt = 0;
+    state = 'looking';
+
+    publish('looking');
+    tryPropose();
+  };
+
+  // Propose to the longest-waiting eligible candidate, if any
+  const tryPropose = () => {
+    if (state !== 'looking') return;
+
+    const now = Date.now();
+    const eligible = Array.from(candidates.entries())
+      .filter(([pubkey, candidate]) =>
+        pubkey > publicKey &&
+        now - candidate.seenAt < candidateTtl &&
+        (cooldowns.get(pubkey) ?? 0) <= now
+      )
+      .sort((a, b) => a[1].seenAt - b[1].seenAt);
+
+    if (eligible.length === 0) return;
+
+    const [targetPubkey, candidate] = eligible[0];
+    state = 'proposing';
+    peer = targetPubkey;
+    peerSessionId = candidate.sessionId;
+
+    logger.info('Proposing match', { to: targetPubkey.substring(0, 8) });
+    publish('propose', targetPubkey);
+    waitForPeer();
+  };
+
+  const completeMatch = () => {
+    clearPending();
+    state = 'matched';
+    matchedAt = Date.now();
+    candidates.clear();
+
+    logger.info('Match handshake complete', { partner: peer?.substring(0, 8) });
+    onMatched(peer!, peerSessionId);
+  };
+
+  const handleEvent = (event: HandshakeEvent) => {
+    if (state === 'idle') return;
+
+    // Skip our own events and events from other tabs of this browser
+    if (event.pubkey === publicKey) return;
+    if (getTag(event, 'browser_id') === browserInstanceId) return;
+
+    const status = getTag(event, 'status');
+    const sessionId = getTag(event, 'session') || '';
+    const targetPubkey = getTag(event, 'p');
+
+    if (status === 'looking') {
+      // A partner announcing after we matched has given up on us, e.g. because our
+      // confirm was lost; announcements from before the match may still be arriving
+      if (state === 'matched' && peer === event.pubkey && event.created_at * 1000 > matchedAt) {
+        logger.info('Partner is looking again, dropping the match', { partner: peer.substring(0, 8) });
+        onMatchLost?.(peer);
+        backToLooking();
+        return;
+      }
+
+      // A fresh announcement means they're free again, whatever happened before
+      cooldowns.delete(event.pubkey);
+      candidates.set(event.pubkey, {
+        sessionId,
+        seenAt: Math.min(Date.now(), event.created_at * 1000)
+      });
+      tryPropose();
+      return;
+    }
+
+    // Handshake messages are wrapped for their recipient, so anything else isn't for us
+    if (targetPubkey !== publicKey) return;
+
+    const from = event.pubkey;
+    logger.debug('Received handshake event', { status, from: from.substring(0, 8), state });
+
+    switch (status) {
+      case 'propose':
+        // Only someone whose `looking` event we've accepted may propose, so proposals
+        // can't skip the admission checks applied to those (like proof-of-work)
+        if (!candidates.has(from) && peer !== from) {
+          logger.debug('Ignoring proposal from a peer that never announced', { from: from.substring(0, 8) });
+        } else if (state === 'looking' && from < publicKey) {
+          state = 'accepting';
+          peer = from;
+          peerSessionId = sessionId;
+          publish('accept', from);
+          waitForPeer();
+        } else if (state === 'accepting' && peer === from) {
+          // Repeated proposal, our accept may have been lost
+          publish('accept', from);
+        } else {
+          publish('reject', from);
+        }
+        break;
+
+      case 'accept':
+        if (state === 'proposing' && peer === from) {
+          publish('confirm', from);
+          completeMatch();
+        } else if (state === 'matched' && peer === from) {
+          // Repeated accept, our confirm may have been lost
+          publish('confirm', from);
+        } else {
+          publish('reject', from);
+        }
+        break;
+
+      case 'confirm':
+        if (state === 'accepting' && peer === from) {
+          completeMatch();
+        } else if (!(state === 'matched' && peer === from)) {
+          // A confirm we've already given up on; tell them so they don't stay one-sided
+          publish('reject', from);
+        }
+        break;
+
+      case 'reject':
+        if (peer === from) {
+          logger.info('Handshake rejected', { by: from.substring(0, 8), state });
+
+          if (state === 'matched') {
+            onMatchLost?.(from);
+          }
+
+          backToLooking();
+        }
+        break;
+    }
+  };
+
+  const start = () => {
+    if (state !== 'idle') return;
+
+    state = 'looking';
+    publish('looking');
+
+    // Looking events age out of other clients' lookback, so keep announcing
+    refreshInterval = setInterval(() => {
+      if (state === 'looking') {
+        publish('looking');
+      }
+    }, lookingRefreshInterval);
+  };
+
+  const stop = () => {
+    clearPending();
+
+    if (refreshInterval) {
+      clearInterval(refreshInterval);
+      refreshInterval = null;
+    }
+
+    state = 'idle';
+    peer = null;
+    peerSessionId = '';
+    matchedAt = 0;
+    candidates.clear();
+    cooldowns.clear();
+  };
+
+  return {
+    start,
+    stop,
+    handleEvent,
+    getState: () => state,
+  };
+};
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { startLocalRelay, RELAY_INFORMATION } from '../../../scripts/local-relay.mjs';
+import { checkRelayHealth } from './health';
+
+type LocalRelay = Awaited<ReturnType<typeof startLocalRelay>>;
+
+const relays: LocalRelay[] = [];
+
+const startRelay = async (options?: Parameters<typeof startLocalRelay>[0]) => {
+  const relay = await startLocalRelay({ port: 0, ...options });
+  relays.push(relay);
+  return relay;
+};
+
+afterEach(async () => {
+  await Promise.all(relays.splice(0).map(relay => relay.close()));
+});
+
+describe('checkRelayHealth', () => {
+  it('reports a relay that answers REQ with EOSE as online, with its NIP-11 details', async () => {
+    const relay = await startRelay();
+
+    const health = await checkRelayHealth(relay.url, { timeout: 2000 });
+
+    expect(health.status).toBe('online');
+    expect(health.error).toBeUndefined();
+    expect(health.connectTime).toBeGreaterThanOrEqual(0);
+    expect(health.latency).toBeGreaterThanOrEqual(0);
+    expect(health.name).toBe(RELAY_INFORMATION.name);
+    expect(health.software).toBe(RELAY_INFORMATION.software);
+    expect(health.supportedNips).toEqual(RELAY_INFORMATION.supported_nips);
+    expect(health.limitation).toEqual(RELAY_INFORMATION.limitation);
+    expect(health.lastSeenHealthy).toBe(health.checkedAt);
+  });
+
+  it('reports a relay that closes the subscription as offline, with its reason', async () => {
+    const relay = await startRelay({ closeSubscriptions: 'auth-required: sign in first' });
+
+    const health = await checkRelayHealth(relay.url, { timeout: 2000 });
+
+    expect(health.status).toBe('offline');
+    expect(health.error).toBe('Subscription closed: auth-required: sign in first');
+    // The information document is still read
+    expect(health.name).toBe(RELAY_INFORMATION.name);
+    expect(health.lastSeenHealthy).toBeNull();
+  });
+
+  it('reports a relay that is down as offline, remembering when it was last healthy', async () => {
+    const relay = await startRelay();
+    const healthy = await checkRelayHealth(relay.url, { timeout: 2000 });
+    await relay.close();
+
+    const health = await checkRelayHealth(relay.url, { timeout: 2000, ttl: 0 });
+
+    expect(health.status).toBe('offline');
+    expect(health.error).toBeDefined();
+    expect(health.supportedNips).toEqual([]);
+    expect(health.lastSeenHealthy).toBe(healthy.checkedAt);
+  });
+
+  it('reuses a recent result and shares checks that run at the same time', async () => {
+    const relay = await startRelay();
+
+    const [first, concurrent] = await Promise.all([
+      checkRelayHealth(relay.url, { timeout: 2000 }),
+      checkRelayHealth(relay.url, { timeout: 2000 }),
+    ]);
+    const cached = await checkRelayHealth(relay.url, { timeout: 2000 });
+
+    expect(concurrent).toBe(first);
+    expect(cached).toBe(first);
+  });
+});
@@ -0,0 +1,181 @@
+import WebSocket from 'ws';
+import { OMESTR_KIND, generateRandomString } from './index';
+
+// Health of a single relay, as reported by /api/relays
+export interface RelayHealth {
+  url: string;
+  status: 'online' | 'offline';
+  // Time to open the WebSocket, in milliseconds
+  connectTime?: number;
+  // Round trip from REQ to EOSE, in milliseconds
+  latency?: number;
+  name?: string;
+  software?: string;
+  version?: string;
+  supportedNips: number[];
+  limitation?: Record<string, unknown>;
+  lastSeenHealthy: number | null;
+  checkedAt: number;
+  error?: string;
+}
+
+// NIP-11 relay information document fields we care about
+interface RelayInformation {
+  name?: string;
+  software?: string;
+  version?: string;
+  supported_nips?: number[];
+  limitation?: Record<string, unknown>;
+}
+
+export interface RelayHealthOptions {
+  // Time allowed for the WebSocket round trip and the NIP-11 fetch, each
+  timeout?: number;
+  // How long a result is reused before the relay is checked again
+  ttl?: number;
+}
+
+const DEFAULT_TIMEOUT = 5000;
+const DEFAULT_TTL = 30 * 1000;
+
+// Results and in-flight checks, shared by every request to this server
+const healthCache = new Map<string, RelayHealth>();
+const pendingChecks = new Map<string, Promise<RelayHealth>>();
+
+// Open a WebSocket, send a REQ and wait for EOSE, then CLOSE
+const checkWebSocket = (url: string, timeout: number) => {
+  return new Promise<{ connectTime: number; latency: number }>((resolve, reject) => {
+    const startTime = Date.now();
+    const subId = `omestr-health-${generateRandomString(4)}`;
+    let connectTime = 0;
+    let reqTime = 0;
+    let settled = false;
+
+    const ws = new WebSocket(url);
+
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+
+      try {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(JSON.stringify(['CLOSE', subId]));
+        }
+        ws.close();
+      } catch (_error) {
+        // Socket already gone
+      }
+
+      if (error) {
+        reject(error);
+      } else {
+        resolve({ connectTime, latency: Date.now() - reqTime });
+      }
+    };
+
+    const timer = setTimeout(() => finish(new Error('Connection timeout')), timeout);
+
+    ws.onopen = () => {
+      connectTime = Date.now() - startTime;
+      reqTime = Date.now();
+      ws.send(JSON.stringify(['REQ', subId, { kinds: [OMESTR_KIND], limit: 1 }]));
+    };
+
+    ws.onmessage = (message) => {
+      try {
+        const [type, messageSubId, reason] = JSON.parse(String(message.data));
+        if (messageSubId !== subId) return;
+
+        if (type === 'EOSE') {
+          finish();
+        } else if (type === 'CLOSED') {
+          finish(new Error(`Subscription closed: ${reason || 'no reason given'}`));
+        }
+      } catch (_error) {
+        // Ignore messages that aren't valid JSON arrays
+      }
+    };
+
+    ws.onerror = () => finish(new Error('Connection failed'));
+    ws.onclose = () => finish(new Error('Connection closed before EOSE'));
+  });
+};
+
+// Fetch the NIP-11 relay information document
+const fetchRelayInformation = async (url: string, timeout: number): Promise<RelayInformation | null> => {
+  const httpUrl = url.replace(/^ws(s?):\/\//, 'http$1://');
+
+  try {
+    const response = await fetch(httpUrl, {
+      headers: { Accept: 'application/nostr+json' },
+      signal: AbortSignal.timeout(timeout),
+      cache: 'no-store',
+    });
+
+    if (!response.ok) return null;
+    return await response.json() as RelayInformation;
+  } catch (_error) {
+    return null;
+  }
+};
+
+// Check one relay, bypassing the cache
+const runHealthCheck = async (url: string, timeout: number): Promise<RelayHealth> => {
+  const previous = healthCache.get(url);
+  const checkedAt = Date.now();
+
+  const [socketResult, information] = await Promise.all([
+    checkWebSocket(url, timeout).then(
+      result => ({ ...result, error: undefined }),
+      (error: Error) => ({ connectTime: undefined, latency: undefined, error: error.message })
+    ),
+    fetchRelayInformation(url, timeout),
+  ]);
+
+  const online = !socketResult.error;
+
+  return {
+    url,
+    status: online ? 'online' : 'offline',
+    connectTime: socketResult.connectTime,
+    latency: socketResult.latency,
+    name: information?.name,
+    software: information?.software,
+    version: information?.version,
+    supportedNips: Array.isArray(information?.supported_nips) ? information.supported_nips : [],
+    limitation: information?.limitation,
+    lastSeenHealthy: online ? checkedAt : previous?.lastSeenHealthy ?? null,
+    checkedAt,
+    error: socketResult.error,
+  };
+};
+
+// Check a relay's health, reusing a recent result when there is one
+export const checkRelayHealth = async (
+  url: string,
+  options: RelayHealthOptions = {}
+): Promise<RelayHealth> => {
+  const { timeout = DEFAULT_TIMEOUT, ttl = DEFAULT_TTL } = options;
+
+  const cached = healthCache.get(url);
+  if (cached && Date.now() - cached.checkedAt < ttl) {
+    return cached;
+  }
+
+  // Share a single check between concurrent requests
+  let pending = pendingChecks.get(url);
+  if (!pending) {
+    pending = runHealthCheck(url, timeout)
+      .then(result => {
+        healthCache.set(url, result);
+        return result;
+      })
+      .finally(() => {
+        pendingChecks.delete(url);
+      });
+    pendingChecks.set(url, pending);
+  }
+
+  return pending;
+};
@@ -0,0 +1,75 @@
+import { kinds } from 'nostr-tools';
+import { SimplePool, useWebSocketImplementation } from 'nostr-tools/pool';
+import WebSocket from 'ws';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { startLocalRelay } from '../../../scripts/local-relay.mjs';
+import type { HandshakeEvent } from './handshake';
+import { generateKeypair, OMESTR_KIND, publishMatchmakingEvent, subscribeToMatchmaking, Subscription } from '.';
+
+useWebSocketImplementation(WebSocket);
+
+type LocalRelay = Awaited<ReturnType<typeof startLocalRelay>>;
+
+let relay: LocalRelay;
+let pool: SimplePool;
+const subscriptions: Subscription[] = [];
+
+beforeEach(async () => {
+  relay = await startLocalRelay({ port: 0 });
+  pool = new SimplePool();
+});
+
+afterEach(async () => {
+  subscriptions.splice(0).forEach(subscription => subscription.unsub());
+  pool.close([relay.url]);
+  await relay.close();
+});
+
+// Collect what a keypair's matchmaking subscription passes on
+const listen = (keypair: { privateKey: string; publicKey: string }) => {
+  const received: HandshakeEvent[] = [];
+  subscriptions.push(subscribeToMatchmaking(pool, keypair.privateKey, keypair.publicKey, event => received.push(event), {}, [relay.url]));
+  return received;
+};
+
+const waitFor = async (check: () => boolean) => {
+  for (let i = 0; i < 100 && !check(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+describe('matchmaking events', () => {
+  it('publishes looking announcements in the open', async () => {
+    const sender = generateKeypair();
+    const received = listen(generateKeypair());
+
+    const event = await publishMatchmakingEvent(pool, sender.privateKey, sender.publicKey, 'session', 'looking', undefined, 'browser', [relay.url]);
+    await waitFor(() => received.length > 0);
+
+    expect(event.kind).toBe(OMESTR_KIND);
+    expect(event.pubkey).toBe(sender.publicKey);
+    expect(received.map(e => e.pubkey)).toEqual([sender.publicKey]);
+  });
+
+  it('gift-wraps handshake messages so only the recipient learns who sent them', async () => {
+    const sender = generateKeypair();
+    const recipient = generateKeypair();
+    const bystander = generateKeypair();
+    const received = listen(recipient);
+    const overheard = listen(bystander);
+
+    const event = await publishMatchmakingEvent(pool, sender.privateKey, sender.publicKey, 'session', 'propose', recipient.publicKey, 'browser', [relay.url]);
+    await waitFor(() => received.length > 0);
+
+    // Relays see a wrap from a throwaway key that mentions only the recipient
+    expect(event.kind).toBe(kinds.GiftWrap);
+    expect(event.pubkey).not.toBe(sender.publicKey);
+    expect(JSON.stringify(event)).not.toContain(sender.publicKey);
+
+    expect(received).toHaveLength(1);
+    expect(received[0].pubkey).toBe(sender.publicKey);
+    expect(received[0].tags).toContainEqual(['status', 'propose']);
+    expect(received[0].tags).toContainEqual(['p', recipient.publicKey]);
+    expect(overheard).toEqual([]);
+  });
+});
@@ -1,10 +1,14 @@
 // Custom event kinds for our omestr app
 export const OMESTR_KIND = 30078; // Custom kind for matchmaking events
+export const OMESTR_SIGNAL_KIND = 20078; // Ephemeral kind for typing and receipt signals, relays don't store it
 import { logger } from './logger';
+import type { HandshakeEvent, HandshakeStatus } from './handshake';
+import { mineEvent, hasEnoughPow } from './pow';
 import * as nostrTools from 'nostr-tools';
 import type { Event } from 'nostr-tools';
+import type { SubCloser } from 'nostr-tools/abstract-pool';
 
-// Default relays to connect to
+// Default relays to connect to, used until the user configures their own
 export const DEFAULT_RELAYS = [
   'wss://relay.damus.io',
   'wss://relay.nostr.band',
@@ -20,9 +24,25 @@ export type { Filter } from 'nostr-tools';
 export interface Subscription {
   sub: string;
   unsub: () => void;
-  on: (event: string, callback: (event: Event) => void) => void;
 }
 
+// Optional lifecycle callbacks for relay subscriptions
+export interface SubscriptionHandlers {
+  // Called once every relay has sent EOSE (or timed out)
+  onEose?: () => void;
+  // Called once every relay has closed the subscription, with each relay's reason
+  onClose?: (reasons: string[]) => void;
+}
+
+// How far back to look for matchmaking events when subscribing (seconds)
+const MATCHMAKING_LOOKBACK = 60;
+
+// Wrap a pool subscription in our Subscription interface
+const toSubscription = (id: string, closer: SubCloser): Subscription => ({
+  sub: id,
+  unsub: () => closer.close(),
+});
+
 // BroadcastChannel for cross-browser communication
 let broadcastChannel: BroadcastChannel | null = null;
 
@@ -345,21 +365,33 @@ export const dumpLocalStorage = () => {
 };
 
 // Create a SimplePool for relay connections
-export const createPool = (relays = DEFAULT_RELAYS) => {
+export const createPool = (relays: string[] = DEFAULT_RELAYS) => {
   const pool = new nostrTools.SimplePool();
   logger.info('Created SimplePool and connecting to relays', { relays });
+  
+  // Connect up front so the first publish doesn't wait on handshakes
+  relays.forEach(relay => {
+    pool.ensureRelay(relay).catch(error => {
+      logger.warn(`Could not connect to relay ${relay}`, error);
+    });
+  });
+  
   return pool;
 };
 
 // Publish a matchmaking event to find chat partners
+// `looking` is a public announcement. Every other status is a handshake message for one peer,
+// sent as a NIP-59 gift wrap like chat messages, so relays can't tell who is pairing with whom.
 export const publishMatchmakingEvent = async (
   pool: nostrTools.SimplePool,
   privateKey: string,
   publicKey: string,
   sessionId: string,
-  status: 'looking' | 'matched',
+  status: HandshakeStatus,
   matchedPubkey?: string,
-  browserInstanceId?: string
+  browserInstanceId?: string,
+  relays: string[] = DEFAULT_RELAYS,
+  powDifficulty = 0
 ) => {
   const tags = [
     ['status', status],
@@ -374,20 +406,33 @@ export const publishMatchmakingEvent = async (
     tags.push(['browser_id', browserInstanceId]);
   }
   
-  // Create an unsigned event
-  const event = {
-    kind: OMESTR_KIND,
-    created_at: Math.floor(Date.now() / 1000),
-    tags,
-    content: '',
-    pubkey: publicKey,
-  };
-  
   // Convert hex private key to Uint8Array
   const privateKeyBytes = new Uint8Array(privateKey.match(/.{1,2}/g)?.map(byte => parseInt(byte, 16)) || []);
   
-  // Sign the event with the private key
-  const signedEvent = nostrTools.finalizeEvent(event, privateKeyBytes);
+  let signedEvent: nostrTools.Event;
+  if (status !== 'looking' && matchedPubkey) {
+    // The tags, our pubkey included, only exist inside the encrypted rumor
+    const rumor = nostrTools.nip59.createRumor({ kind: OMESTR_KIND, content: '', tags }, privateKeyBytes);
+    const seal = nostrTools.nip59.createSeal(rumor, privateKeyBytes, matchedPubkey);
+    signedEvent = nostrTools.nip59.createWrap(seal, matchedPubkey);
+  } else {
+    // Create an unsigned event
+    let event: nostrTools.UnsignedEvent = {
+      kind: OMESTR_KIND,
+      created_at: Math.floor(Date.now() / 1000),
+      tags,
+      content: '',
+      pubkey: publicKey,
+    };
+    
+    // Subscribers only check proof-of-work on `looking` events, so only those are mined (NIP-13)
+    if (powDifficulty > 0) {
+      event = await mineEvent(event, powDifficulty);
+    }
+    
+    // Sign the event with the private key
+    signedEvent = nostrTools.finalizeEvent(event, privateKeyBytes);
+  }
   
   logger.info('Publishing matchmaking event', { 
     status, 
@@ -397,87 +442,180 @@ export const publishMatchmakingEvent = async (
   });
   
   // Publish to relays
-  const pubs = pool.publish(DEFAULT_RELAYS, signedEvent);
+  const pubs = pool.publish(relays, signedEvent);
   await Promise.all(pubs);
   
   return signedEvent;
 };
 
 // Subscribe to matchmaking events
+// Passes on public `looking` announcements, and handshake messages addressed to us once
+// unwrapped. Handshake messages come out as their rumors, whose author the seal vouches for.
 export const subscribeToMatchmaking = (
   pool: nostrTools.SimplePool,
+  privateKey: string,
   publicKey: string,
-  onEvent: (event: nostrTools.Event) => void
-) => {
-  const filter: nostrTools.Filter = {
-    kinds: [OMESTR_KIND],
-  };
+  onEvent: (event: HandshakeEvent) => void,
+  handlers: SubscriptionHandlers = {},
+  relays: string[] = DEFAULT_RELAYS,
+  minPowDifficulty = 0
+): Subscription => {
+  // Convert hex private key to Uint8Array
+  const privateKeyBytes = new Uint8Array(privateKey.match(/.{1,2}/g)?.map(byte => parseInt(byte, 16)) || []);
+  
+  // Only recent events matter; older "looking" events are from users who are long gone.
+  // Gift wraps have their created_at randomised into the past, so they can't use `since`,
+  // but session keys are new each time so nothing old is addressed to us.
+  const filters: nostrTools.Filter[] = [
+    {
+      kinds: [OMESTR_KIND],
+      since: Math.floor(Date.now() / 1000) - MATCHMAKING_LOOKBACK,
+    },
+    {
+      kinds: [nostrTools.kinds.GiftWrap],
+      '#p': [publicKey],
+    },
+  ];
+  
+  const subId = `omestr-mm-${generateRandomString(4)}`;
   
   logger.info('Subscribing to matchmaking events', { 
-    pubkey: publicKey.substring(0, 8)
+    pubkey: publicKey.substring(0, 8),
+    subId,
+    relays
   });
   
   // Subscribe to events from actual relays
-  // @ts-ignore - SimplePool API mismatch, but it works at runtime
-  const sub = pool.sub(DEFAULT_RELAYS, [filter]);
-  sub.on('event', (event: nostrTools.Event) => {
-    onEvent(event);
+  // The pool opens one subscription per filter, so they're labelled rather than sharing an ID
+  const closer = pool.subscribeMany(relays, filters, {
+    label: subId,
+    onevent: (event: nostrTools.Event) => {
+      if (event.kind === nostrTools.kinds.GiftWrap) {
+        try {
+          const rumor = unwrapGiftWrap(event, privateKeyBytes);
+          
+          // Chat messages to us arrive the same way and are handled by the chat subscription
+          if (rumor.kind === OMESTR_KIND) {
+            onEvent(rumor);
+          }
+        } catch (error) {
+          logger.debug('Ignoring gift wrap that failed to unwrap', error);
+        }
+        return;
+      }
+      
+      // Drop `looking` announcements that didn't pay the proof-of-work, so bots can't flood the queue
+      const status = event.tags.find(tag => tag[0] === 'status')?.[1];
+      if (status !== 'looking') {
+        logger.debug('Ignoring unwrapped handshake event', { pubkey: event.pubkey.substring(0, 8), status });
+        return;
+      }
+      if (!hasEnoughPow(event, minPowDifficulty)) {
+        logger.debug('Ignoring looking event with too little proof-of-work', {
+          pubkey: event.pubkey.substring(0, 8),
+          minPowDifficulty
+        });
+        return;
+      }
+      
+      onEvent(event);
+    },
+    oneose: () => {
+      logger.debug('Matchmaking subscription reached end of stored events', { subId });
+      handlers.onEose?.();
+    },
+    onclose: (reasons: string[]) => {
+      logger.info('Matchmaking subscription closed', { subId, reasons });
+      handlers.onClose?.(reasons);
+    },
   });
   
-  return sub;
+  return toSubscription(subId, closer);
 };
 
-// Publish a direct message to a chat partner
-export const publishChatMessage = async (
-  pool: nostrTools.SimplePool,
+// A chat message unwrapped from a NIP-17 gift wrap
+// The rumor is unsigned by design; its author is authenticated by the seal
+export type DecryptedChatMessage = nostrTools.UnsignedEvent & {
+  id: string;
+  decryptedContent: string;
+};
+
+// Unwrap a NIP-59 gift wrap, checking that the seal is signed by the rumor's author
+const unwrapGiftWrap = (wrap: nostrTools.Event, privateKeyBytes: Uint8Array) => {
+  const wrapKey = nostrTools.nip44.getConversationKey(privateKeyBytes, wrap.pubkey);
+  const seal = JSON.parse(nostrTools.nip44.decrypt(wrap.content, wrapKey)) as nostrTools.Event;
+  
+  if (seal.kind !== nostrTools.kinds.Seal || !nostrTools.verifyEvent(seal)) {
+    throw new Error('Invalid seal');
+  }
+  
+  const sealKey = nostrTools.nip44.getConversationKey(privateKeyBytes, seal.pubkey);
+  const rumor = JSON.parse(nostrTools.nip44.decrypt(seal.content, sealKey)) as nostrTools.UnsignedEvent & { id: string };
+  
+  if (rumor.pubkey !== seal.pubkey) {
+    throw new Error('Rumor author does not match seal');
+  }
+  
+  return rumor;
+};
+
+// A direct message ready to publish
+// `id` is the rumor's ID, which the recipient sees and refers to in receipts.
+export interface WrappedChatMessage {
+  id: string;
+  event: nostrTools.Event;
+}
+
+// Wrap a direct message for a chat partner
+// The message is a NIP-17 kind 14 rumor, sealed to the recipient and gift-wrapped
+// with a throwaway key, so relays only see a kind 1059 event addressed to the recipient.
+export const createChatMessage = (
   privateKey: string,
-  publicKey: string,
   recipientPubkey: string,
   sessionId: string,
-  message: string,
-  browserInstanceId?: string
-) => {
+  message: string
+): WrappedChatMessage => {
   // Convert hex private key to Uint8Array
   const privateKeyBytes = new Uint8Array(privateKey.match(/.{1,2}/g)?.map(byte => parseInt(byte, 16)) || []);
   
-  // Encrypt the message content according to NIP-04
-  const encryptedContent = await nostrTools.nip04.encrypt(
-    privateKeyBytes,
-    recipientPubkey,
-    message
+  // The session tag lives inside the encrypted rumor, out of sight of relays
+  const rumor = nostrTools.nip59.createRumor(
+    {
+      kind: nostrTools.kinds.PrivateDirectMessage,
+      content: message,
+      tags: [
+        ['p', recipientPubkey],
+        ['session', sessionId],
+      ],
+    },
+    privateKeyBytes
   );
+  const seal = nostrTools.nip59.createSeal(rumor, privateKeyBytes, recipientPubkey);
   
-  const tags = [
-    ['p', recipientPubkey],
-    ['session', sessionId],
-  ];
-  
-  if (browserInstanceId) {
-    tags.push(['browser_id', browserInstanceId]);
-  }
-  
-  // Create an unsigned event
-  const event = {
-    kind: 4, // Kind 4 is for encrypted direct messages
-    created_at: Math.floor(Date.now() / 1000),
-    tags,
-    content: encryptedContent,
-    pubkey: publicKey,
-  };
-  
-  // Sign the event with the private key
-  const signedEvent = nostrTools.finalizeEvent(event, privateKeyBytes);
-  
+  return { id: rumor.id, event: nostrTools.nip59.createWrap(seal, recipientPubkey) };
+};
+
+// Publish a direct message made by createChatMessage
+export const publishChatMessage = async (
+  pool: nostrTools.SimplePool,
+  publicKey: string,
+  recipientPubkey: string,
+  sessionId: string,
+  message: WrappedChatMessage,
+  relays: string[] = DEFAULT_RELAYS
+) => {
   logger.info('Publishing chat message', { 
+    id: message.id.substring(0, 8),
     recipientPubkey: recipientPubkey.substring(0, 8),
+    sender: publicKey.substring(0, 8),
     sessionId
   });
   
-  // Publish to relays
-  const pubs = pool.publish(DEFAULT_RELAYS, signedEvent);
-  await Promise.all(pubs);
+  // Publish to relays; the message is out once any of them accepts it
+  const pubs = pool.publish(relays, message.event);
+  await Promise.any(pubs);
   
-  return signedEvent;
+  return message.event;
 };
 
 // Subscribe to direct messages
@@ -486,49 +624,173 @@ export const subscribeToChatMessages = (
   privateKey: string,
   publicKey: string,
   partnerPubkey: string,
-  sessionId: string,
-  browserInstanceId: string,
-  onEvent: (event: nostrTools.Event & { decryptedContent?: string }) => void
-) => {
+  onEvent: (message: DecryptedChatMessage) => void,
+  handlers: SubscriptionHandlers = {},
+  relays: string[] = DEFAULT_RELAYS
+): Subscription => {
   // Convert hex private key to Uint8Array
   const privateKeyBytes = new Uint8Array(privateKey.match(/.{1,2}/g)?.map(byte => parseInt(byte, 16)) || []);
   
-  // Filter for direct messages (kind 4) from our partner
+  // Gift wraps are signed by throwaway keys, so we can only filter on the recipient.
+  // Their created_at is randomised into the past, so no `since` either.
   const filter: nostrTools.Filter = {
-    kinds: [4],
-    authors: [partnerPubkey],
+    kinds: [nostrTools.kinds.GiftWrap],
     '#p': [publicKey],
   };
   
+  const subId = `omestr-chat-${generateRandomString(4)}`;
+  
   logger.info('Subscribing to chat messages', { 
     partnerPubkey: partnerPubkey.substring(0, 8),
-    sessionId
+    subId,
+    relays
   });
   
   // Subscribe to events from actual relays
-  // @ts-ignore - SimplePool API mismatch, but it works at runtime
-  const sub = pool.sub(DEFAULT_RELAYS, [filter]);
-  sub.on('event', async (event: nostrTools.Event) => {
-    try {
-      // Decrypt the message content according to NIP-04
-      const decryptedContent = await nostrTools.nip04.decrypt(
-        privateKeyBytes,
-        partnerPubkey,
-        event.content
-      );
-      
-      // Create a message with the decrypted content
-      const message = {
-        ...event,
-        decryptedContent
-      };
-      
-      // Invoke the callback with the decrypted message
-      onEvent(message);
-    } catch (error) {
-      logger.error('Error decrypting message', error);
+  const closer = pool.subscribeMany(relays, [filter], {
+    id: subId,
+    onevent: (event: nostrTools.Event) => {
+      try {
+        const rumor = unwrapGiftWrap(event, privateKeyBytes);
+        
+        // Only accept direct messages from our partner
+        if (rumor.kind !== nostrTools.kinds.PrivateDirectMessage || rumor.pubkey !== partnerPubkey) {
+          logger.debug('Ignoring gift wrap not from our partner', {
+            kind: rumor.kind,
+            pubkey: rumor.pubkey.substring(0, 8)
+          });
+          return;
+        }
+        
+        // Invoke the callback with the decrypted message
+        onEvent({
+          ...rumor,
+          decryptedContent: rumor.content
+        });
+      } catch (error) {
+        logger.error('Error unwrapping message', error);
+      }
+    },
+    oneose: () => {
+      logger.debug('Chat subscription reached end of stored events', { subId });
+      handlers.onEose?.();
+    },
+    onclose: (reasons: string[]) => {
+      logger.info('Chat subscription closed', { subId, reasons });
+      handlers.onClose?.(reasons);
+    },
+  });
+  
+  return toSubscription(subId, closer);
+};
+
+// Something a chat partner should know about the chat but that isn't a message
+export type ChatSignal =
+  | { type: 'typing'; typing: boolean }
+  | { type: 'receipt'; status: 'delivered' | 'read'; messageIds: string[] };
+
+// Receipts for more messages than this are split across signals
+const MAX_RECEIPT_IDS = 50;
+
+// Check a decrypted signal, since only its encryption is vouched for
+const parseChatSignal = (value: unknown): ChatSignal | null => {
+  if (!value || typeof value !== 'object') return null;
+  const signal = value as Record<string, unknown>;
+  
+  if (signal.type === 'typing' && typeof signal.typing === 'boolean') {
+    return { type: 'typing', typing: signal.typing };
+  }
+  if (
+    signal.type === 'receipt' &&
+    (signal.status === 'delivered' || signal.status === 'read') &&
+    Array.isArray(signal.messageIds)
+  ) {
+    const messageIds = signal.messageIds
+      .filter((id): id is string => typeof id === 'string' && /^[0-9a-f]{64}$/.test(id))
+      .slice(0, MAX_RECEIPT_IDS);
+    return { type: 'receipt', status: signal.status, messageIds };
+  }
+  return null;
+};
+
+// Send a chat partner a signal, like that we started typing or read their messages
+// The signal is an ephemeral event signed by a throwaway key, like a gift wrap, so relays
+// can't link it to us. The content is NIP-44 encrypted between our real key and the
+// partner's, which is what proves to them it came from us.
+export const publishChatSignal = async (
+  pool: nostrTools.SimplePool,
+  privateKey: string,
+  recipientPubkey: string,
+  signal: ChatSignal,
+  relays: string[] = DEFAULT_RELAYS
+) => {
+  // Convert hex private key to Uint8Array
+  const privateKeyBytes = new Uint8Array(privateKey.match(/.{1,2}/g)?.map(byte => parseInt(byte, 16)) || []);
+  const conversationKey = nostrTools.nip44.getConversationKey(privateKeyBytes, recipientPubkey);
+  
+  const signals: ChatSignal[] = [];
+  if (signal.type === 'receipt') {
+    for (let i = 0; i < signal.messageIds.length; i += MAX_RECEIPT_IDS) {
+      signals.push({ ...signal, messageIds: signal.messageIds.slice(i, i + MAX_RECEIPT_IDS) });
     }
+  } else {
+    signals.push(signal);
+  }
+  
+  await Promise.all(signals.flatMap(part => {
+    const event = nostrTools.finalizeEvent({
+      kind: OMESTR_SIGNAL_KIND,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [['p', recipientPubkey]],
+      content: nostrTools.nip44.encrypt(JSON.stringify(part), conversationKey),
+    }, nostrTools.generateSecretKey());
+    
+    return pool.publish(relays, event);
+  }));
+};
+
+// Subscribe to signals from a chat partner
+export const subscribeToChatSignals = (
+  pool: nostrTools.SimplePool,
+  privateKey: string,
+  publicKey: string,
+  partnerPubkey: string,
+  onSignal: (signal: ChatSignal) => void,
+  handlers: SubscriptionHandlers = {},
+  relays: string[] = DEFAULT_RELAYS
+): Subscription => {
+  // Convert hex private key to Uint8Array
+  const privateKeyBytes = new Uint8Array(privateKey.match(/.{1,2}/g)?.map(byte => parseInt(byte, 16)) || []);
+  const conversationKey = nostrTools.nip44.getConversationKey(privateKeyBytes, partnerPubkey);
+  
+  const filter: nostrTools.Filter = {
+    kinds: [OMESTR_SIGNAL_KIND],
+    '#p': [publicKey],
+    since: Math.floor(Date.now() / 1000),
+  };
+  
+  const subId = `omestr-signal-${generateRandomString(4)}`;
+  
+  const closer = pool.subscribeMany(relays, [filter], {
+    id: subId,
+    onevent: (event: nostrTools.Event) => {
+      try {
+        // Only our partner can produce content that decrypts with our conversation key,
+        // and both keys are new for each session
+        const signal = parseChatSignal(JSON.parse(nostrTools.nip44.decrypt(event.content, conversationKey)));
+        if (signal) {
+          onSignal(signal);
+        }
+      } catch (_error) {
+        // Someone else's signal, or garbage
+      }
+    },
+    oneose: () => handlers.onEose?.(),
+    onclose: (reasons: string[]) => {
+      logger.debug('Signal subscription closed', { subId, reasons });
+      handlers.onClose?.(reasons);
+    },
   });
   
-  return sub;
-}; 
+  return toSubscription(subId, closer);
+};
@@ -0,0 +1,50 @@
+import { nip13 } from 'nostr-tools';
+import type { Event, UnsignedEvent } from 'nostr-tools';
+import { logger } from './logger';
+
+// A mined event, ready to be signed
+export type MinedEvent = Omit<Event, 'sig'>;
+
+const parseDifficulty = (value: string | undefined, fallback: number) => {
+  const difficulty = parseInt(value || '', 10);
+  return Number.isFinite(difficulty) && difficulty >= 0 ? difficulty : fallback;
+};
+
+// Leading zero bits to mine into our own `looking` events, from
+// NEXT_PUBLIC_OMESTR_POW_DIFFICULTY (0, the default, turns mining off)
+export const getPowDifficulty = () =>
+  parseDifficulty(process.env.NEXT_PUBLIC_OMESTR_POW_DIFFICULTY, 0);
+
+// Minimum proof-of-work for other people's `looking` events, from
+// NEXT_PUBLIC_OMESTR_MIN_POW_DIFFICULTY, defaulting to the difficulty we mine at
+export const getMinPowDifficulty = () =>
+  parseDifficulty(process.env.NEXT_PUBLIC_OMESTR_MIN_POW_DIFFICULTY, getPowDifficulty());
+
+// Check that an event's ID has at least the given number of leading zero bits
+export const hasEnoughPow = (event: Event, minDifficulty: number) =>
+  minDifficulty <= 0 || nip13.getPow(event.id) >= minDifficulty;
+
+// Mine an event to the given difficulty, in a Web Worker when the browser has them
+export const mineEvent = (event: UnsignedEvent, difficulty: number): Promise<MinedEvent> => {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(nip13.minePow(event, difficulty));
+  }
+
+  return new Promise((resolve, reject) => {
+    const startTime = Date.now();
+    const worker = new Worker(new URL('./pow.worker.ts', import.meta.url));
+
+    worker.onmessage = (message: MessageEvent<MinedEvent>) => {
+      worker.terminate();
+      logger.debug('Mined proof-of-work', { difficulty, ms: Date.now() - startTime });
+      resolve(message.data);
+    };
+
+    worker.onerror = (error) => {
+      worker.terminate();
+      reject(new Error(`Proof-of-work worker failed: ${error.message}`));
+    };
+
+    worker.postMessage({ event, difficulty });
+  });
+};
@@ -0,0 +1,8 @@
+import { nip13 } from 'nostr-tools';
+import type { UnsignedEvent } from 'nostr-tools';
+
+// Mines NIP-13 proof-of-work off the main thread so the UI stays responsive
+self.onmessage = (message: MessageEvent<{ event: UnsignedEvent; difficulty: number }>) => {
+  const { event, difficulty } = message.data;
+  self.postMessage(nip13.minePow(event, difficulty));
+};
@@ -0,0 +1,168 @@
+import * as nostrTools from 'nostr-tools';
+import { DEFAULT_RELAYS } from './index';
+import { logger } from './logger';
+
+// A relay the user has configured, and whether we read from and write to it
+export interface RelayConfig {
+  url: string;
+  read: boolean;
+  write: boolean;
+}
+
+// localStorage key for the user's relay list
+export const RELAY_SETTINGS_STORAGE_KEY = 'omestr_relays';
+
+// Dispatched on window when the relay list is saved, so every hook instance picks it up
+export const RELAY_SETTINGS_CHANGED_EVENT = 'omestr-relays-changed';
+
+// Relays that keep NIP-65 lists for most users, tried alongside the user's own relays on import
+const RELAY_LIST_INDEXERS = ['wss://purplepag.es', 'wss://relay.nostr.band'];
+
+// How long to wait for relays to return a NIP-65 list
+const RELAY_LIST_IMPORT_TIMEOUT = 5000;
+
+export const getDefaultRelayConfigs = (): RelayConfig[] =>
+  DEFAULT_RELAYS.map(url => ({ url, read: true, write: true }));
+
+// Normalise a relay URL, or return null if it isn't a WebSocket URL
+export const normalizeRelayUrl = (url: string): string | null => {
+  try {
+    const parsed = new URL(url.trim());
+    if (parsed.protocol !== 'wss:' && parsed.protocol !== 'ws:') return null;
+
+    // URL lowercases the host for us; drop the trailing slash it adds to bare hosts
+    return parsed.toString().replace(/\/$/, '');
+  } catch (_error) {
+    return null;
+  }
+};
+
+export const getReadRelays = (relays: RelayConfig[]) =>
+  relays.filter(relay => relay.read).map(relay => relay.url);
+
+export const getWriteRelays = (relays: RelayConfig[]) =>
+  relays.filter(relay => relay.write).map(relay => relay.url);
+
+// Load the user's relay list, falling back to the defaults
+export const loadRelaySettings = (): RelayConfig[] => {
+  if (typeof window === 'undefined') return getDefaultRelayConfigs();
+
+  try {
+    const stored = localStorage.getItem(RELAY_SETTINGS_STORAGE_KEY);
+    if (!stored) return getDefaultRelayConfigs();
+
+    const parsed = JSON.parse(stored) as RelayConfig[];
+    const relays = parsed
+      .map(relay => ({
+        url: normalizeRelayUrl(relay.url) || '',
+        read: relay.read !== false,
+        write: relay.write !== false,
+      }))
+      .filter(relay => relay.url);
+
+    return relays.length > 0 ? relays : getDefaultRelayConfigs();
+  } catch (error) {
+    logger.error('Failed to load relay settings, using defaults', error);
+    return getDefaultRelayConfigs();
+  }
+};
+
+// Save the user's relay list and let other hook instances know
+export const saveRelaySettings = (relays: RelayConfig[]) => {
+  if (typeof window === 'undefined') return;
+
+  localStorage.setItem(RELAY_SETTINGS_STORAGE_KEY, JSON.stringify(relays));
+  window.dispatchEvent(new CustomEvent(RELAY_SETTINGS_CHANGED_EVENT));
+  logger.info('Saved relay settings', { relays });
+};
+
+// Add a relay, or update its read/write flags if it's already in the list
+export const addRelay = (
+  relays: RelayConfig[],
+  url: string,
+  flags: { read: boolean; write: boolean } = { read: true, write: true }
+): RelayConfig[] => {
+  const normalized = normalizeRelayUrl(url);
+  if (!normalized) {
+    throw new Error(`Invalid relay URL: ${url}`);
+  }
+
+  if (relays.some(relay => relay.url === normalized)) {
+    return relays.map(relay => relay.url === normalized ? { ...relay, ...flags } : relay);
+  }
+
+  return [...relays, { url: normalized, ...flags }];
+};
+
+export const removeRelay = (relays: RelayConfig[], url: string): RelayConfig[] =>
+  relays.filter(relay => relay.url !== url);
+
+export const updateRelay = (
+  relays: RelayConfig[],
+  url: string,
+  flags: Partial<Pick<RelayConfig, 'read' | 'write'>>
+): RelayConfig[] =>
+  relays.map(relay => relay.url === url ? { ...relay, ...flags } : relay);
+
+// Turn a NIP-65 kind 10002 event into relay configs
+// An `r` tag without a marker means both read and write
+export const parseRelayListEvent = (event: nostrTools.Event): RelayConfig[] => {
+  if (event.kind !== nostrTools.kinds.RelayList) {
+    throw new Error(`Expected a kind ${nostrTools.kinds.RelayList} relay list, got kind ${event.kind}`);
+  }
+
+  return event.tags.reduce<RelayConfig[]>((relays, [name, url, marker]) => {
+    if (name !== 'r' || !url || !normalizeRelayUrl(url)) return relays;
+
+    return addRelay(relays, url, {
+      read: marker !== 'write',
+      write: marker !== 'read',
+    });
+  }, []);
+};
+
+// Resolve an npub or hex pubkey to hex
+const toHexPubkey = (pubkey: string): string => {
+  const trimmed = pubkey.trim();
+
+  if (trimmed.startsWith('npub')) {
+    const decoded = nostrTools.nip19.decode(trimmed);
+    if (decoded.type !== 'npub') throw new Error('Invalid npub');
+    return decoded.data;
+  }
+
+  if (!/^[0-9a-f]{64}$/i.test(trimmed)) {
+    throw new Error('Enter an npub or 64-character hex pubkey');
+  }
+
+  return trimmed.toLowerCase();
+};
+
+// Fetch someone's NIP-65 relay list from the given relays and a few well-known indexers
+export const fetchRelayList = async (
+  pool: nostrTools.SimplePool,
+  pubkey: string,
+  relays: string[]
+): Promise<RelayConfig[]> => {
+  const author = toHexPubkey(pubkey);
+  const sources = Array.from(new Set([...relays, ...RELAY_LIST_INDEXERS]));
+
+  logger.info('Fetching NIP-65 relay list', { pubkey: author.substring(0, 8), sources });
+
+  const event = await pool.get(
+    sources,
+    { kinds: [nostrTools.kinds.RelayList], authors: [author] },
+    { maxWait: RELAY_LIST_IMPORT_TIMEOUT }
+  );
+
+  if (!event || !nostrTools.verifyEvent(event)) {
+    throw new Error('No relay list found for that pubkey');
+  }
+
+  const imported = parseRelayListEvent(event);
+  if (imported.length === 0) {
+    throw new Error('That relay list is empty');
+  }
+
+  return imported;
+};
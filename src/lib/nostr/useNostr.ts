@@ -4,24 +4,49 @@ import {
   createPool,
   publishMatchmakingEvent,
   subscribeToMatchmaking,
+  createChatMessage,
   publishChatMessage,
   subscribeToChatMessages,
+  publishChatSignal,
+  subscribeToChatSignals,
   generateRandomString,
-  DEFAULT_RELAYS,
-  OMESTR_KIND,
+  Subscription,
+  DecryptedChatMessage,
+  ChatSignal,
+  WrappedChatMessage,
 } from './index';
+import { createMatchHandshake, MatchHandshake } from './handshake';
+import { getReadRelays, getWriteRelays } from './relays';
+import { getPowDifficulty, getMinPowDifficulty } from './pow';
+import { useRelaySettings } from './useRelaySettings';
+import { useTypingIndicator } from '../hooks/useTypingIndicator';
+import { useMessageReceipts, advanceStatus, applyReceiptStatuses, MessageStatus } from '../hooks/useMessageReceipts';
+import { useOutbox } from '../hooks/useOutbox';
+import { createOutbox, DeliveryResult, OutboxUpdate } from '../services/outbox';
 import { logger } from './logger';
-import { SimplePool, Event } from 'nostr-tools';
+import { SimplePool } from 'nostr-tools';
 
 type ChatMessage = {
   id: string;
   content: string;
   sender: 'me' | 'partner';
   timestamp: number;
+  status?: MessageStatus;
 };
 
 type ConnectionStatus = 'disconnected' | 'looking' | 'connected';
 
+// A wrapped message waiting for a relay to accept it
+type PendingChatMessage = {
+  publicKey: string;
+  recipientPubkey: string;
+  sessionId: string;
+  message: WrappedChatMessage;
+};
+
+// The relay outbox of a chat, by our session and the partner's pubkey
+const getOutboxKey = (sessionId: string, partnerPubkey: string) => `${sessionId}_${partnerPubkey}`;
+
 // Generate a unique browser instance ID to differentiate between browser sessions
 const getBrowserInstanceId = (): string => {
   if (typeof window === 'undefined') return '';
@@ -73,8 +98,89 @@ export function useNostr() {
   const [browserInstanceId] = useState<string>(typeof window !== 'undefined' ? getBrowserInstanceId() : '');
   
   const poolRef = useRef<SimplePool | null>(null);
-  const matchmakingSubRef = useRef<{ unsub: () => void } | null>(null);
-  const chatSubRef = useRef<{ unsub: () => void } | null>(null);
+  const matchmakingSubRef = useRef<Subscription | null>(null);
+  const chatSubRef = useRef<Subscription | null>(null);
+  const signalSubRef = useRef<Subscription | null>(null);
+  const handshakeRef = useRef<MatchHandshake | null>(null);
+  
+  // Read the relay list at call time so settings changes apply to the next publish or subscription
+  const { relays } = useRelaySettings();
+  const relaysRef = useRef(relays);
+  relaysRef.current = relays;
+  
+  // Typing and receipt signals are sent as ephemeral events to the current partner
+  const sendSignal = (signal: ChatSignal) => {
+    if (!keypair || !poolRef.current || !partnerPubkey) return;
+    
+    publishChatSignal(
+      poolRef.current,
+      keypair.privateKey,
+      partnerPubkey,
+      signal,
+      getWriteRelays(relaysRef.current)
+    ).catch(error => logger.debug('Error sending chat signal', { type: signal.type, error }));
+  };
+  
+  const {
+    partnerTyping,
+    notifyTyping,
+    stopTyping,
+    receive: receivePartnerTyping,
+    reset: resetTyping
+  } = useTypingIndicator(typing => sendSignal({ type: 'typing', typing }));
+  
+  // Acknowledge partner messages by the IDs of their rumors
+  useMessageReceipts(messages, partnerPubkey, (messageIds, ackStatus) => {
+    sendSignal({ type: 'receipt', status: ackStatus, messageIds });
+  });
+  
+  // Set the status of one of our messages
+  const setMessageStatus = useCallback((messageId: string, messageStatus: MessageStatus) => {
+    setMessages(prev => prev.map(msg => {
+      if (msg.id !== messageId) return msg;
+      return { ...msg, status: messageStatus === 'failed' ? messageStatus : advanceStatus(msg.status, messageStatus) };
+    }));
+  }, []);
+  
+  // Messages no relay has accepted yet; the same wrap is republished, so relays and the
+  // partner see a repeat rather than a second message
+  const [relayOutbox] = useState(() => createOutbox<PendingChatMessage>('relay', async (pending): Promise<DeliveryResult> => {
+    if (!poolRef.current) {
+      return { outcome: 'retry', error: 'Not connected to relays' };
+    }
+    
+    await publishChatMessage(
+      poolRef.current,
+      pending.publicKey,
+      pending.recipientPubkey,
+      pending.sessionId,
+      pending.message,
+      getWriteRelays(relaysRef.current)
+    );
+    return { outcome: 'sent' };
+  }));
+  
+  // Our session ID outlives a match that's lost, so each partner gets an outbox of their own
+  const { send: sendThroughOutbox } = useOutbox(relayOutbox, partnerPubkey ? getOutboxKey(sessionId, partnerPubkey) : null, (updates: OutboxUpdate[]) => {
+    updates.forEach(update => {
+      if (update.status === 'sent') {
+        setMessageStatus(update.id, 'sent');
+      } else if (update.status === 'failed') {
+        setMessageStatus(update.id, 'failed');
+      }
+    });
+  });
+  
+  // Handle a signal from the partner
+  const handleSignal = useCallback((signal: ChatSignal) => {
+    if (signal.type === 'typing') {
+      receivePartnerTyping(signal.typing);
+      return;
+    }
+    
+    const receipts = new Map<string, MessageStatus>(signal.messageIds.map(id => [id, signal.status]));
+    setMessages(prev => applyReceiptStatuses(prev, receipts));
+  }, [receivePartnerTyping]);
   
   // Initialize the Nostr connection
   const initialize = useCallback(() => {
@@ -88,195 +194,32 @@ export function useNostr() {
     
     // Create a pool for relay connections
     if (!poolRef.current) {
-      poolRef.current = createPool();
+      poolRef.current = createPool(relaysRef.current.map(relay => relay.url));
     }
     
     return { newKeypair, newSessionId };
   }, []);
   
-  // Start looking for a chat partner
-  const startLooking = useCallback(async () => {
-    if (!keypair || !poolRef.current) {
-      const { newKeypair, newSessionId } = initialize();
-      
-      // Reset state for a new session
-      setStatus('looking');
-      setMessages([]);
-      setPartnerPubkey(null);
-      
-      // Make sure pool is initialized
-      if (!poolRef.current) return;
-      
-      logger.info('Starting to look for chat partners', { 
-        pubkey: newKeypair.publicKey.substring(0, 8) + '...',
-        sessionId: newSessionId,
-        browserId: browserInstanceId
-      });
-      
-      // Publish a "looking" event
-      await publishMatchmakingEvent(
-        poolRef.current,
-        newKeypair.privateKey,
-        newKeypair.publicKey,
-        newSessionId,
-        'looking',
-        undefined,
-        browserInstanceId
-      );
-      
-      // Subscribe to matchmaking events
-      subscribeToMatchmakingEvents(newKeypair.publicKey, newSessionId);
-    } else {
-      // Reset state for a new session
-      setStatus('looking');
-      setMessages([]);
-      setPartnerPubkey(null);
-      
-      logger.info('Starting to look for chat partners', { 
-        pubkey: keypair.publicKey.substring(0, 8) + '...',
-        sessionId,
-        browserId: browserInstanceId
-      });
-      
-      // Publish a "looking" event
-      await publishMatchmakingEvent(
-        poolRef.current,
-        keypair.privateKey,
-        keypair.publicKey,
-        sessionId,
-        'looking',
-        undefined,
-        browserInstanceId
-      );
-      
-      // Subscribe to matchmaking events
-      subscribeToMatchmakingEvents(keypair.publicKey, sessionId);
-    }
-  }, [keypair, sessionId, initialize, browserInstanceId]);
-  
-  // Subscribe to matchmaking events
-  const subscribeToMatchmakingEvents = useCallback((publicKey: string, currentSessionId: string) => {
-    if (!poolRef.current) return;
-    
-    // Close previous subscription if it exists
-    if (matchmakingSubRef.current) {
-      matchmakingSubRef.current.unsub();
-    }
-    
-    // Create a new subscription
-    const sub = subscribeToMatchmaking(
-      poolRef.current,
-      publicKey,
-      (event: Event) => {
-        // Check for unique browser instance IDs
-        const browserIdTag = event.tags.find((tag: string[]) => tag[0] === 'browser_id');
-        const eventBrowserId = browserIdTag ? browserIdTag[1] : '';
-        
-        // Extract status from tags
-        const statusTag = event.tags.find((tag: string[]) => tag[0] === 'status');
-        const status = statusTag ? statusTag[1] : '';
-        
-        // Extract session ID from tags
-        const sessionTag = event.tags.find((tag: string[]) => tag[0] === 'session');
-        const eventSessionId = sessionTag ? sessionTag[1] : '';
-        
-        logger.debug('Received matchmaking event', {
-          status,
-          pubkey: event.pubkey.substring(0, 8),
-          sessionId: eventSessionId,
-          browserInstanceId: eventBrowserId,
-          ourBrowserId: browserInstanceId
-        });
-        
-        // Skip our own browser's events by comparing browser instance IDs
-        if (eventBrowserId === browserInstanceId) {
-          logger.debug('Skipping event from our own browser instance');
-          return;
-        }
-        
-        // Handle "looking" events when we're also looking
-        if (status === 'looking' && !partnerPubkey) {
-          // Found a potential match from a different browser
-          handlePotentialMatch(event.pubkey, eventSessionId);
-        }
-        
-        // Handle "matched" events with our pubkey
-        const partnerTag = event.tags.find((tag: string[]) => tag[0] === 'p' && tag[1] === publicKey);
-        if (status === 'matched' && partnerTag) {
-          // Confirm the match
-          handleMatchConfirmation(event.pubkey, eventSessionId);
-        }
-      }
-    );
-    
-    matchmakingSubRef.current = sub;
-  }, [partnerPubkey, browserInstanceId]);
-  
-  // Handle a potential match
-  const handlePotentialMatch = useCallback(async (potentialPartnerPubkey: string, partnerSessionId: string) => {
-    if (!keypair || !poolRef.current || status !== 'looking') return;
-    
-    logger.info(`Found potential match: ${potentialPartnerPubkey.substring(0, 8)}...`, {
-      status,
-      partnerSessionId,
-      browserId: browserInstanceId
-    });
-    
-    // Update our event to "matched" with the partner's pubkey
-    await publishMatchmakingEvent(
-      poolRef.current,
-      keypair.privateKey,
-      keypair.publicKey,
-      sessionId,
-      'matched',
-      potentialPartnerPubkey,
-      browserInstanceId
-    );
-    
-    // Set the partner's pubkey
-    setPartnerPubkey(potentialPartnerPubkey);
-    setStatus('connected');
-    
-    // Subscribe to chat messages
-    subscribeToChatMessagesFromPartner(potentialPartnerPubkey);
-  }, [keypair, poolRef, status, sessionId, browserInstanceId]);
-  
-  // Handle match confirmation
-  const handleMatchConfirmation = useCallback(async (confirmedPartnerPubkey: string, partnerSessionId: string) => {
-    if (!keypair || !poolRef.current) return;
-    
-    logger.info(`Match confirmed with: ${confirmedPartnerPubkey.substring(0, 8)}...`, {
-      status,
-      partnerSessionId,
-      browserId: browserInstanceId
-    });
-    
-    // Set the partner's pubkey
-    setPartnerPubkey(confirmedPartnerPubkey);
-    setStatus('connected');
-    
-    // Subscribe to chat messages
-    subscribeToChatMessagesFromPartner(confirmedPartnerPubkey);
-  }, [keypair, poolRef, status, browserInstanceId]);
-  
   // Subscribe to chat messages from the partner
-  const subscribeToChatMessagesFromPartner = useCallback((partnerPubkeyToUse: string) => {
-    if (!keypair || !poolRef.current) return;
+  const subscribeToChatMessagesFromPartner = useCallback((
+    partnerPubkeyToUse: string,
+    activeKeypair: { privateKey: string; publicKey: string }
+  ) => {
+    if (!poolRef.current) return;
     
-    // Close previous subscription if it exists
+    // Close previous subscriptions if they exist
     if (chatSubRef.current) {
       chatSubRef.current.unsub();
     }
+    signalSubRef.current?.unsub();
     
     // Create a new subscription
     const sub = subscribeToChatMessages(
       poolRef.current,
-      keypair.privateKey,
-      keypair.publicKey,
+      activeKeypair.privateKey,
+      activeKeypair.publicKey,
       partnerPubkeyToUse,
-      sessionId,
-      browserInstanceId,
-      (event: Event & { decryptedContent?: string }) => {
+      (event: DecryptedChatMessage) => {
         if (!event.decryptedContent) {
           logger.error('Received message with no decrypted content', { 
             id: event.id.substring(0, 8),
@@ -297,12 +240,128 @@ export function useNostr() {
           timestamp: event.created_at,
         };
         
-        setMessages(prev => [...prev, newMessage]);
-      }
+        // Relays and resends can deliver the same message more than once
+        setMessages(prev => prev.some(msg => msg.id === newMessage.id) ? prev : [...prev, newMessage]);
+        
+        // A message from the partner means they've stopped typing
+        receivePartnerTyping(false);
+      },
+      {},
+      getReadRelays(relaysRef.current)
     );
     
     chatSubRef.current = sub;
-  }, [keypair, poolRef, sessionId, browserInstanceId]);
+    
+    signalSubRef.current = subscribeToChatSignals(
+      poolRef.current,
+      activeKeypair.privateKey,
+      activeKeypair.publicKey,
+      partnerPubkeyToUse,
+      handleSignal,
+      {},
+      getReadRelays(relaysRef.current)
+    );
+  }, [receivePartnerTyping, handleSignal]);
+  
+  // Start looking for a chat partner
+  const startLooking = useCallback(async () => {
+    // Use the current session, or start a new one
+    let activeKeypair = keypair;
+    let activeSessionId = sessionId;
+    
+    if (!activeKeypair || !poolRef.current) {
+      const { newKeypair, newSessionId } = initialize();
+      activeKeypair = newKeypair;
+      activeSessionId = newSessionId;
+    }
+    
+    // Make sure pool is initialized
+    if (!poolRef.current) return;
+    const pool = poolRef.current;
+    const currentKeypair = activeKeypair;
+    
+    // Reset state for a new session
+    setStatus('looking');
+    setMessages([]);
+    setPartnerPubkey(null);
+    
+    logger.info('Starting to look for chat partners', { 
+      pubkey: currentKeypair.publicKey.substring(0, 8) + '...',
+      sessionId: activeSessionId,
+      browserId: browserInstanceId
+    });
+    
+    // Replace any previous handshake
+    handshakeRef.current?.stop();
+    
+    const handshake = createMatchHandshake({
+      publicKey: currentKeypair.publicKey,
+      browserInstanceId,
+      send: (handshakeStatus, targetPubkey) => publishMatchmakingEvent(
+        pool,
+        currentKeypair.privateKey,
+        currentKeypair.publicKey,
+        activeSessionId,
+        handshakeStatus,
+        targetPubkey,
+        browserInstanceId,
+        getWriteRelays(relaysRef.current),
+        getPowDifficulty()
+      ),
+      onMatched: (matchedPubkey, partnerSessionId) => {
+        logger.info(`Match confirmed with: ${matchedPubkey.substring(0, 8)}...`, {
+          partnerSessionId,
+          browserId: browserInstanceId
+        });
+        
+        // Set the partner's pubkey
+        setPartnerPubkey(matchedPubkey);
+        setStatus('connected');
+        
+        // Subscribe to chat messages
+        subscribeToChatMessagesFromPartner(matchedPubkey, currentKeypair);
+      },
+      onMatchLost: (lostPubkey) => {
+        logger.warn(`Match with ${lostPubkey.substring(0, 8)}... was rejected, looking again`);
+        
+        if (chatSubRef.current) {
+          chatSubRef.current.unsub();
+          chatSubRef.current = null;
+        }
+        
+        signalSubRef.current?.unsub();
+        signalSubRef.current = null;
+        
+        // Nothing waiting for them could still be delivered
+        relayOutbox.clear(getOutboxKey(activeSessionId, lostPubkey));
+        
+        setPartnerPubkey(null);
+        setMessages([]);
+        resetTyping();
+        setStatus('looking');
+      },
+    });
+    handshakeRef.current = handshake;
+    
+    // Close previous subscription if it exists
+    if (matchmakingSubRef.current) {
+      matchmakingSubRef.current.unsub();
+    }
+    
+    // Feed every matchmaking event into the handshake
+    matchmakingSubRef.current = subscribeToMatchmaking(
+      pool,
+      currentKeypair.privateKey,
+      currentKeypair.publicKey,
+      handshake.handleEvent,
+      {},
+      getReadRelays(relaysRef.current),
+      getMinPowDifficulty()
+    );
+    
+    // Announce that we're looking
+    handshake.start();
+  }, [keypair, sessionId, initialize, browserInstanceId, subscribeToChatMessagesFromPartner, resetTyping, relayOutbox]);
   
   // Send a chat message
   const sendMessage = useCallback(async (content: string) => {
@@ -311,44 +370,52 @@ export function useNostr() {
       return;
     }
     
+    // Wrap it first, so the local message has the ID the partner's receipts will use
+    const wrapped = createChatMessage(keypair.privateKey, partnerPubkey, sessionId, content);
+    
     // Create a message object
     const newMessage: ChatMessage = {
-      id: generateRandomString(16),
+      id: wrapped.id,
       content,
       sender: 'me',
       timestamp: Math.floor(Date.now() / 1000),
+      status: 'pending',
     };
     
     // Add to messages immediately for UI responsiveness
     setMessages(prev => [...prev, newMessage]);
     
-    // Send the message via Nostr
-    try {
-      await publishChatMessage(
-        poolRef.current,
-        keypair.privateKey,
-        keypair.publicKey,
-        partnerPubkey,
-        sessionId,
-        content,
-        browserInstanceId
-      );
-      logger.info('Message sent successfully', { 
-        to: partnerPubkey.substring(0, 8),
-        content: content.substring(0, 20) + (content.length > 20 ? '...' : '')
-      });
-    } catch (error) {
-      logger.error('Error sending message', error);
-      
-      // Optionally, you could add error handling here
-      // For example, mark the message as "failed" in the UI
-    }
-  }, [keypair, poolRef, partnerPubkey, sessionId, browserInstanceId]);
+    // The message itself tells the partner we've stopped typing
+    stopTyping(false);
+    
+    // Send the message via Nostr, retrying until a relay accepts it
+    await sendThroughOutbox(wrapped.id, {
+      publicKey: keypair.publicKey,
+      recipientPubkey: partnerPubkey,
+      sessionId,
+      message: wrapped
+    });
+  }, [keypair, poolRef, partnerPubkey, sessionId, stopTyping, sendThroughOutbox]);
+  
+  // Send a failed message again, as a new message at the end of the chat
+  const retryMessage = useCallback((messageId: string) => {
+    const failed = messages.find(msg => msg.id === messageId && msg.status === 'failed');
+    if (!failed) return;
+    
+    setMessages(prev => prev.filter(msg => msg.id !== messageId));
+    sendMessage(failed.content);
+  }, [messages, sendMessage]);
   
   // Disconnect from the current chat
   const disconnect = useCallback(() => {
     logger.info('Disconnecting from chat');
     
+    // Stop matchmaking
+    if (handshakeRef.current) {
+      handshakeRef.current.stop();
+      handshakeRef.current = null;
+    }
+    
     // Close subscriptions
     if (matchmakingSubRef.current) {
       matchmakingSubRef.current.unsub();
@@ -360,14 +427,18 @@ export function useNostr() {
       chatSubRef.current = null;
     }
     
+    signalSubRef.current?.unsub();
+    signalSubRef.current = null;
+    
     // Reset state
     setStatus('disconnected');
     setPartnerPubkey(null);
     setMessages([]);
+    resetTyping();
     
     // Optional: Clear the keypair to generate a new one next time
     setKeypair(null);
-  }, []);
+  }, [resetTyping]);
   
   // Clear all stored data
   const clearData = useCallback(() => {
@@ -378,6 +449,8 @@ export function useNostr() {
   // Clean up subscriptions when component unmounts
   useEffect(() => {
     return () => {
+      handshakeRef.current?.stop();
+      
       if (matchmakingSubRef.current) {
         matchmakingSubRef.current.unsub();
       }
@@ -385,6 +458,8 @@ export function useNostr() {
       if (chatSubRef.current) {
         chatSubRef.current.unsub();
       }
+      
+      signalSubRef.current?.unsub();
     };
   }, []);
   
@@ -393,7 +468,10 @@ export function useNostr() {
     messages,
     startLooking,
     sendMessage,
+    retryMessage,
     disconnect,
     clearData,
+    partnerTyping,
+    notifyTyping,
   };
 } 
\ No newline at end of file
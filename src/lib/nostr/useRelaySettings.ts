@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  RelayConfig,
+  RELAY_SETTINGS_STORAGE_KEY,
+  RELAY_SETTINGS_CHANGED_EVENT,
+  loadRelaySettings,
+  saveRelaySettings,
+  getDefaultRelayConfigs,
+  addRelay as addRelayConfig,
+  removeRelay as removeRelayConfig,
+  updateRelay as updateRelayConfig,
+  getReadRelays,
+  fetchRelayList,
+} from './relays';
+import { createPool } from './index';
+import { logger } from './logger';
+
+// The user's relay list, persisted in localStorage and shared between every component using it
+export function useRelaySettings() {
+  const [relays, setRelays] = useState<RelayConfig[]>(() => loadRelaySettings());
+
+  // Pick up changes saved by other components or other tabs
+  useEffect(() => {
+    const reload = () => setRelays(loadRelaySettings());
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === RELAY_SETTINGS_STORAGE_KEY) reload();
+    };
+
+    window.addEventListener(RELAY_SETTINGS_CHANGED_EVENT, reload);
+    window.addEventListener('storage', handleStorage);
+
+    return () => {
+      window.removeEventListener(RELAY_SETTINGS_CHANGED_EVENT, reload);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  const save = useCallback((updated: RelayConfig[]) => {
+    setRelays(updated);
+    saveRelaySettings(updated);
+  }, []);
+
+  const addRelay = useCallback((url: string, flags?: { read: boolean; write: boolean }) => {
+    save(addRelayConfig(relays, url, flags));
+  }, [relays, save]);
+
+  const removeRelay = useCallback((url: string) => {
+    save(removeRelayConfig(relays, url));
+  }, [relays, save]);
+
+  const updateRelay = useCallback((url: string, flags: Partial<Pick<RelayConfig, 'read' | 'write'>>) => {
+    save(updateRelayConfig(relays, url, flags));
+  }, [relays, save]);
+
+  const resetRelays = useCallback(() => {
+    save(getDefaultRelayConfigs());
+  }, [save]);
+
+  // Replace the list with someone's NIP-65 relay list
+  const importRelayList = useCallback(async (pubkey: string) => {
+    const pool = createPool(getReadRelays(relays));
+
+    try {
+      const imported = await fetchRelayList(pool, pubkey, getReadRelays(relays));
+      logger.info('Imported NIP-65 relay list', { count: imported.length });
+      save(imported);
+      return imported;
+    } finally {
+      pool.destroy();
+    }
+  }, [relays, save]);
+
+  return {
+    relays,
+    addRelay,
+    removeRelay,
+    updateRelay,
+    resetRelays,
+    importRelayList,
+  };
+}
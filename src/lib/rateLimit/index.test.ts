@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkRateLimit, resetRateLimits } from '.';
+
+const request = (headers: Record<string, string> = {}) =>
+  new Request('http://localhost/api/test', { headers });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(1_000_000_000);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  resetRateLimits();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('checkRateLimit', () => {
+  it('puts every client in one shared bucket when there is no trusted proxy', () => {
+    vi.stubEnv('OMESTR_RATE_LIMIT_GLOBAL', '3/60');
+
+    expect(checkRateLimit(request({ 'x-forwarded-for': '1.1.1.1' }))).toBeNull();
+    expect(checkRateLimit(request({ 'x-forwarded-for': '2.2.2.2' }))).toBeNull();
+    expect(checkRateLimit(request())).toBeNull();
+
+    const limited = checkRateLimit(request({ 'x-forwarded-for': '3.3.3.3' }));
+    expect(limited?.status).toBe(429);
+  });
+
+  it('keeps a bucket per client IP behind a trusted proxy', () => {
+    vi.stubEnv('OMESTR_TRUSTED_PROXY_HOPS', '1');
+    vi.stubEnv('OMESTR_RATE_LIMIT_IP', '2/60');
+    const from = (ip: string) => request({ 'x-forwarded-for': `9.9.9.9, ${ip}` });
+
+    expect(checkRateLimit(from('1.1.1.1'))).toBeNull();
+    expect(checkRateLimit(from('1.1.1.1'))).toBeNull();
+    expect(checkRateLimit(from('1.1.1.1'))?.status).toBe(429);
+    expect(checkRateLimit(from('2.2.2.2'))).toBeNull();
+  });
+
+  it('keeps a bucket per user token', () => {
+    vi.stubEnv('OMESTR_RATE_LIMIT_USER', '2/60');
+    const tokenA = 'a'.repeat(64);
+    const as = (token: string) => request({ authorization: `Bearer ${token}` });
+
+    expect(checkRateLimit(as(tokenA))).toBeNull();
+    expect(checkRateLimit(as(tokenA))).toBeNull();
+    expect(checkRateLimit(as(tokenA))?.status).toBe(429);
+    expect(checkRateLimit(as('b'.repeat(64)))).toBeNull();
+    // A token sent in the body or query counts against the same bucket
+    expect(checkRateLimit(request(), { token: tokenA })?.status).toBe(429);
+  });
+
+  it('limits registrations separately from other requests', () => {
+    vi.stubEnv('OMESTR_RATE_LIMIT_REGISTER', '1/60');
+
+    expect(checkRateLimit(request(), { register: true })).toBeNull();
+    expect(checkRateLimit(request(), { register: true })?.status).toBe(429);
+    expect(checkRateLimit(request())).toBeNull();
+  });
+
+  it("doesn't use up earlier buckets when a later one is empty", () => {
+    vi.stubEnv('OMESTR_RATE_LIMIT_GLOBAL', '3/60');
+    vi.stubEnv('OMESTR_RATE_LIMIT_CHAT', '1/60');
+
+    expect(checkRateLimit(request(), { chatSessionId: 'chat' })).toBeNull();
+    expect(checkRateLimit(request(), { chatSessionId: 'chat' })?.status).toBe(429);
+    expect(checkRateLimit(request(), { chatSessionId: 'chat' })?.status).toBe(429);
+
+    // Only the first request counted against the shared bucket
+    expect(checkRateLimit(request())).toBeNull();
+    expect(checkRateLimit(request())).toBeNull();
+    expect(checkRateLimit(request())?.status).toBe(429);
+  });
+
+  it('says when to retry, and lets requests through again once the bucket refills', async () => {
+    vi.stubEnv('OMESTR_RATE_LIMIT_CHAT', '2/60');
+    checkRateLimit(request(), { chatSessionId: 'chat' });
+    checkRateLimit(request(), { chatSessionId: 'chat' });
+
+    const limited = checkRateLimit(request(), { chatSessionId: 'chat' });
+    expect(limited?.headers.get('Retry-After')).toBe('30');
+    expect(await limited?.json()).toMatchObject({ code: 'rate_limited', scope: 'chat', retryAfter: 30 });
+
+    vi.advanceTimersByTime(30 * 1000);
+    expect(checkRateLimit(request(), { chatSessionId: 'chat' })).toBeNull();
+  });
+});
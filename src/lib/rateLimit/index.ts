@@ -0,0 +1,180 @@
+import { NextResponse } from 'next/server';
+import { getRequestToken, hashToken } from '../matchmaking/ownership';
+
+// What a bucket is keyed on
+// `global` is shared by every request whose IP isn't known, so traffic is never unthrottled.
+// `user` is keyed on the token the server issued, and `register` limits new registrations per IP.
+export type RateLimitScope = 'ip' | 'global' | 'user' | 'chat' | 'register';
+
+// A token bucket: up to `capacity` requests at once, refilled at `capacity / window` per second
+interface BucketConfig {
+  capacity: number;
+  windowSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Defaults allow a polling client plus some headroom; a chat session is shared by two people
+const DEFAULT_LIMITS: Record<RateLimitScope, BucketConfig> = {
+  ip: { capacity: 600, windowSeconds: 60 },
+  global: { capacity: 6000, windowSeconds: 60 },
+  user: { capacity: 300, windowSeconds: 60 },
+  chat: { capacity: 120, windowSeconds: 60 },
+  register: { capacity: 30, windowSeconds: 60 },
+};
+
+// Environment variables overriding each limit, as "<requests>/<seconds>", e.g. "300/60"
+const LIMIT_ENV_VARS: Record<RateLimitScope, string> = {
+  ip: 'OMESTR_RATE_LIMIT_IP',
+  global: 'OMESTR_RATE_LIMIT_GLOBAL',
+  user: 'OMESTR_RATE_LIMIT_USER',
+  chat: 'OMESTR_RATE_LIMIT_CHAT',
+  register: 'OMESTR_RATE_LIMIT_REGISTER',
+};
+
+// Drop buckets that have been full for this long, so the maps don't grow forever
+const BUCKET_IDLE_TIME = 10 * 60 * 1000;
+
+const parseLimit = (value: string | undefined, fallback: BucketConfig): BucketConfig => {
+  const match = value?.match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/);
+  if (!match) return fallback;
+
+  const capacity = parseInt(match[1], 10);
+  const windowSeconds = parseInt(match[2], 10);
+  return capacity > 0 && windowSeconds > 0 ? { capacity, windowSeconds } : fallback;
+};
+
+export const getRateLimits = (): Record<RateLimitScope, BucketConfig> => ({
+  ip: parseLimit(process.env[LIMIT_ENV_VARS.ip], DEFAULT_LIMITS.ip),
+  global: parseLimit(process.env[LIMIT_ENV_VARS.global], DEFAULT_LIMITS.global),
+  user: parseLimit(process.env[LIMIT_ENV_VARS.user], DEFAULT_LIMITS.user),
+  chat: parseLimit(process.env[LIMIT_ENV_VARS.chat], DEFAULT_LIMITS.chat),
+  register: parseLimit(process.env[LIMIT_ENV_VARS.register], DEFAULT_LIMITS.register),
+});
+
+// Buckets live on globalThis so dev-server reloads don't reset them
+// They are per server process; each worker enforces its own limits.
+const globalForRateLimit = globalThis as typeof globalThis & {
+  omestrRateLimitBuckets?: Map<string, Bucket>;
+  omestrRateLimitLastSweep?: number;
+  omestrRateLimitWarned?: boolean;
+};
+
+const getBuckets = () => {
+  if (!globalForRateLimit.omestrRateLimitBuckets) {
+    globalForRateLimit.omestrRateLimitBuckets = new Map();
+  }
+  return globalForRateLimit.omestrRateLimitBuckets;
+};
+
+const sweepIdleBuckets = (buckets: Map<string, Bucket>, now: number) => {
+  if (now - (globalForRateLimit.omestrRateLimitLastSweep ?? 0) < BUCKET_IDLE_TIME) return;
+  globalForRateLimit.omestrRateLimitLastSweep = now;
+
+  buckets.forEach((bucket, key) => {
+    if (now - bucket.updatedAt > BUCKET_IDLE_TIME) {
+      buckets.delete(key);
+    }
+  });
+};
+
+// Refill a bucket for the time that has passed, creating it full if it's new
+const refillBucket = (key: string, config: BucketConfig, now: number): Bucket => {
+  const buckets = getBuckets();
+  const refillPerMs = config.capacity / (config.windowSeconds * 1000);
+
+  const bucket = buckets.get(key) || { tokens: config.capacity, updatedAt: now };
+  bucket.tokens = Math.min(config.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+  bucket.updatedAt = now;
+  buckets.set(key, bucket);
+  return bucket;
+};
+
+// How many seconds until a bucket has a token again
+const getRetryAfter = (bucket: Bucket, config: BucketConfig) =>
+  Math.ceil((1 - bucket.tokens) / (config.capacity / config.windowSeconds));
+
+// How many reverse proxies in front of the app append to X-Forwarded-For, set with
+// OMESTR_TRUSTED_PROXY_HOPS: 1 on Vercel or behind a single nginx, 0 (the default) without a proxy
+export const getTrustedProxyHops = (): number => {
+  const hops = parseInt(process.env.OMESTR_TRUSTED_PROXY_HOPS || '0', 10);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+};
+
+// The client's IP as seen by the outermost trusted proxy, or null if there's none to ask
+// Each proxy appends the address it got the request from, so the client is the entry that many
+// hops from the right; anything further left came from the client and can be anything. Route
+// handlers can't see the socket address, so without a trusted proxy there is no IP to go on.
+export const getClientIp = (request: Request): string | null => {
+  const hops = getTrustedProxyHops();
+  if (hops === 0) return null;
+
+  const forwardedFor = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  return forwardedFor[forwardedFor.length - hops] || null;
+};
+
+export interface RateLimitKeys {
+  // The user's token, for requests that send it somewhere other than the Authorization header
+  token?: string | null;
+  chatSessionId?: string | null;
+  // Whether the request can register a new user
+  register?: boolean;
+}
+
+// Check a request against the buckets it falls in
+// Every request counts against its IP's bucket, or the shared `global` one if the IP isn't known.
+// Requests with a token also count against that user's bucket, chat requests against the chat's,
+// and registrations against `register`. Tokens are only taken if every bucket has one, so a
+// rejected request costs nothing. Returns a 429 response to send back, or null to carry on.
+export const checkRateLimit = (request: Request, keys: RateLimitKeys = {}): NextResponse | null => {
+  const now = Date.now();
+  const limits = getRateLimits();
+  sweepIdleBuckets(getBuckets(), now);
+
+  const ip = getClientIp(request);
+  if (!ip && !globalForRateLimit.omestrRateLimitWarned) {
+    globalForRateLimit.omestrRateLimitWarned = true;
+    console.warn('[Rate Limit] No client IP, so all clients share one bucket. Set OMESTR_TRUSTED_PROXY_HOPS behind a proxy.');
+  }
+
+  // Tokens are random, so one the server never issued only gets a bucket of its own
+  // until it's refused; the IP or global bucket still counts the request
+  const token = keys.token === undefined ? getRequestToken(request) : keys.token;
+
+  const checks: [RateLimitScope, string | null | undefined][] = [
+    ip ? ['ip', ip] : ['global', 'all'],
+    ['user', token ? hashToken(token) : null],
+    ['chat', keys.chatSessionId],
+    ['register', keys.register ? ip ?? 'all' : null],
+  ];
+
+  const buckets = checks
+    .filter((check): check is [RateLimitScope, string] => !!check[1])
+    .map(([scope, key]) => ({ scope, key, bucket: refillBucket(`${scope}:${key}`, limits[scope], now) }));
+
+  const empty = buckets.find(({ bucket }) => bucket.tokens < 1);
+  if (empty) {
+    const retryAfter = getRetryAfter(empty.bucket, limits[empty.scope]);
+    console.log(`[Rate Limit] ${empty.scope} limit hit for ${empty.key.substring(0, 12)}, retry after ${retryAfter}s`);
+    return NextResponse.json(
+      { error: 'Too many requests', code: 'rate_limited', scope: empty.scope, retryAfter },
+      { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+    );
+  }
+
+  buckets.forEach(({ bucket }) => {
+    bucket.tokens -= 1;
+  });
+  return null;
+};
+
+// Forget every bucket, e.g. between tests
+export const resetRateLimits = () => {
+  getBuckets().clear();
+};
@@ -0,0 +1,47 @@
+import { logger } from '../nostr/logger';
+
+// Strangers this browser has blocked, kept in localStorage so the block outlives the session
+export const BLOCKLIST_STORAGE_KEY = 'omestr_blocklist';
+
+// Most strangers kept in the blocklist; the oldest are forgotten first
+const MAX_BLOCKED = 500;
+
+export interface BlockedUser {
+  browserKey: string; // One-way key for the stranger's browser, from the matchmaking API
+  pubkey: string;
+  blockedAt: number;
+}
+
+export const getBlocklist = (): BlockedUser[] => {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(BLOCKLIST_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter(entry => typeof entry?.browserKey === 'string' && typeof entry?.pubkey === 'string')
+      : [];
+  } catch (error) {
+    logger.error('Failed to load blocklist', error);
+    return [];
+  }
+};
+
+// Browser keys sent with every registration so the server never matches us with them
+export const getBlockedBrowserKeys = (): string[] => getBlocklist().map(entry => entry.browserKey).filter(Boolean);
+
+export const addToBlocklist = (browserKey: string | undefined, pubkey: string) => {
+  if (typeof window === 'undefined') return;
+
+  const blocklist = getBlocklist().filter(entry =>
+    entry.pubkey !== pubkey && (!browserKey || entry.browserKey !== browserKey)
+  );
+  blocklist.push({ browserKey: browserKey || '', pubkey, blockedAt: Date.now() });
+
+  try {
+    localStorage.setItem(BLOCKLIST_STORAGE_KEY, JSON.stringify(blocklist.slice(-MAX_BLOCKED)));
+    logger.info('Blocked stranger', { pubkey: pubkey.substring(0, 8), hasBrowserKey: !!browserKey });
+  } catch (error) {
+    logger.error('Failed to save blocklist', error);
+  }
+};
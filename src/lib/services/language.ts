@@ -0,0 +1,52 @@
+import { logger } from '../nostr/logger';
+import { normalizeLanguage } from '../matchmaking/language';
+
+// The language we chat in, kept in localStorage so it's remembered between visits
+export const LANGUAGE_STORAGE_KEY = 'omestr_language';
+
+export interface LanguagePreference {
+  language: string; // Primary language subtag, e.g. 'en'
+  anyLanguage: boolean; // Also happy to be matched with strangers who speak something else
+}
+
+// Languages offered in the picker; the browser's own language is added if it's missing
+export const LANGUAGES = [
+  'ar', 'bn', 'de', 'en', 'es', 'fa', 'fr', 'hi', 'id', 'it', 'ja', 'ko',
+  'nl', 'pl', 'pt', 'ru', 'sv', 'th', 'tr', 'uk', 'ur', 'vi', 'zh',
+];
+
+// The browser's language, which is where the picker starts
+export const getDefaultLanguage = (): string =>
+  (typeof navigator !== 'undefined' && normalizeLanguage(navigator.language)) || 'en';
+
+export const getLanguagePreference = (): LanguagePreference => {
+  const fallback = { language: getDefaultLanguage(), anyLanguage: false };
+  if (typeof window === 'undefined') return fallback;
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(LANGUAGE_STORAGE_KEY) || 'null');
+    return {
+      language: normalizeLanguage(stored?.language) || fallback.language,
+      anyLanguage: stored?.anyLanguage === true,
+    };
+  } catch (error) {
+    logger.error('Failed to load language preference', error);
+    return fallback;
+  }
+};
+
+export const setLanguagePreference = (preference: LanguagePreference) => {
+  if (typeof window === 'undefined') return;
+
+  localStorage.setItem(LANGUAGE_STORAGE_KEY, JSON.stringify(preference));
+};
+
+// A language's name in the user's own language, falling back to its code
+export const getLanguageName = (language: string): string => {
+  try {
+    const locale = typeof navigator !== 'undefined' ? navigator.language : 'en';
+    return new Intl.DisplayNames([locale], { type: 'language' }).of(language) || language;
+  } catch (_error) {
+    return language;
+  }
+};
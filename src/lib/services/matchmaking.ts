@@ -1,26 +1,51 @@
 import { generateRandomString } from '../nostr';
 import { logger } from '../nostr/logger';
+import { setUserToken, clearUserToken, getAuthHeaders } from './userToken';
+import { getBlockedBrowserKeys } from './blocklist';
+import type { LanguagePreference } from './language';
 
 // Types
 export type MatchmakingStatus = 'looking' | 'matched';
 
+// Why the stranger left: they skipped to someone else, closed the tab, stopped responding,
+// or were banned by a moderator
+export type DisconnectReason = 'skipped' | 'closed' | 'timed_out' | 'banned';
+
+export interface PartnerLeft {
+  reason: DisconnectReason;
+  endedAt: number;
+}
+
+// Where we stand while looking; the server only shares counts, never who else is waiting
+export interface QueueSummary {
+  position: number | null; // 1 is next in line
+  looking: number;
+  chatting: number;
+  estimatedWait: number | null; // Seconds, or null if nobody has been matched lately
+}
+
 export interface MatchUser {
   id: string;
   pubkey: string;
   sessionId: string;
-  browserId: string;
+  browserId?: string; // Only known for our own user; the server never reveals a partner's
+  browserKey?: string; // One-way key for the user's browser, used in blocklists
   status: MatchmakingStatus;
   matchedWith?: string;
   chatSessionId?: string;
+  sharedInterests?: string[];
+  language?: string; // Primary language subtag, e.g. 'en'
 }
 
 interface MatchmakingResponse {
   user?: MatchUser;
+  token?: string;
   match?: MatchUser | null;
-  otherUsers?: MatchUser[];
-  userCount?: number;
+  queue?: QueueSummary;
   success: boolean;
   error?: string;
+  code?: string; // Machine-readable reason for an error, e.g. 'banned'
+  bannedUntil?: number;
   removedId?: string;
   remainingCount?: number;
 }
@@ -37,13 +62,16 @@ export const registerLookingUser = async (
   sessionId: string,
   browserId: string,
   status: MatchmakingStatus = 'looking',
-  chatSessionId?: string
+  chatSessionId?: string,
+  interests?: string[],
+  language?: LanguagePreference
 ): Promise<MatchmakingResponse> => {
   try {
     const response = await fetch('/api/matchmaking', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(userId),
       },
       body: JSON.stringify({
         id: userId,
@@ -51,22 +79,46 @@ export const registerLookingUser = async (
         sessionId,
         browserId,
         status,
-        chatSessionId
+        chatSessionId,
+        interests,
+        language: language?.language,
+        anyLanguage: language?.anyLanguage,
+        blocked: getBlockedBrowserKeys()
       }),
     });
     
     if (!response.ok) {
       const errorText = await response.text();
       logger.error('Failed to register looking user', { status: response.status, error: errorText });
+      
+      // A moderator has banned us; pass the reason and end of the ban on
+      if (response.status === 403) {
+        try {
+          const { error, code, bannedUntil } = JSON.parse(errorText);
+          if (code === 'banned') {
+            return { success: false, error, code, bannedUntil };
+          }
+        } catch (_error) {
+          // Not a ban response, fall through
+        }
+      }
+      
       return { success: false, error: errorText };
     }
     
     const data = await response.json();
+    
+    // The first registration of an ID issues the token that proves we own it
+    if (data.token) {
+      setUserToken(userId, data.token);
+    }
+    
     logger.info('Registered looking user', { 
       userId, 
       status,
       hasMatch: !!data.match,
-      chatSessionId: data.user?.chatSessionId || data.match?.chatSessionId
+      chatSessionId: data.user?.chatSessionId || data.match?.chatSessionId,
+      sharedInterests: data.match?.sharedInterests
     });
     
     return data;
@@ -84,6 +136,7 @@ export const checkForMatch = async (
   try {
     const response = await fetch(`/api/matchmaking?id=${userId}&browserId=${browserId}`, {
       method: 'GET',
+      headers: getAuthHeaders(userId),
     });
     
     if (!response.ok) {
@@ -109,11 +162,15 @@ export const checkForMatch = async (
   }
 };
 
-// Remove a user
-export const removeUser = async (userId: string): Promise<MatchmakingResponse> => {
+// Remove a user, telling any partner why they left
+export const removeUser = async (
+  userId: string,
+  reason: 'skipped' | 'closed' = 'skipped'
+): Promise<MatchmakingResponse> => {
   try {
-    const response = await fetch(`/api/matchmaking?id=${userId}`, {
+    const response = await fetch(`/api/matchmaking?id=${userId}&reason=${reason}`, {
       method: 'DELETE',
+      headers: getAuthHeaders(userId),
     });
     
     if (!response.ok) {
@@ -123,6 +180,7 @@ export const removeUser = async (userId: string): Promise<MatchmakingResponse> =
     }
     
     const data = await response.json();
+    clearUserToken(userId);
     logger.info('Removed user', { userId, remainingCount: data.remainingCount });
     
     return data;
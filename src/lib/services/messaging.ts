@@ -1,5 +1,10 @@
+import { nip44 } from 'nostr-tools';
 import { generateRandomString } from '../nostr';
 import { logger } from '../nostr/logger';
+import { getAuthHeaders } from './userToken';
+import { createOutbox, DeliveryResult } from './outbox';
+import type { PartnerLeft } from './matchmaking';
+import type { MessageRejection } from '../moderation/filters';
 
 // Types
 export interface Message {
@@ -9,13 +14,62 @@ export interface Message {
   receiverId: string;
   timestamp: number;
   chatSessionId: string;
+  seq?: number; // Position in the chat, assigned by the server
+  deliveredAt?: number;
+  readAt?: number;
 }
 
+export interface Reaction {
+  messageId: string;
+  emoji: string;
+  senderId: string;
+  receiverId: string;
+  timestamp: number;
+  chatSessionId: string;
+}
+
+// How far one of our messages has got, as acknowledged by the partner
+export interface MessageReceipt {
+  messageId: string;
+  status: 'sent' | 'delivered' | 'read';
+}
+
+// Keys used to encrypt messages between the two peers of a chat
+export interface MessageKeys {
+  privateKey: string;
+  partnerPubkey: string;
+}
+
+// The server is throttling us; retryAfter is in seconds
+export class RateLimitError extends Error {
+  readonly retryAfter: number;
+  
+  constructor(retryAfter: number) {
+    super(`You're sending too fast. Try again in ${retryAfter} second${retryAfter === 1 ? '' : 's'}.`);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Turn a 429 response into a RateLimitError, or return null for anything else
+export const getRateLimitError = (response: Response): RateLimitError | null => {
+  if (response.status !== 429) return null;
+  
+  const retryAfter = parseInt(response.headers.get('Retry-After') || '', 10);
+  return new RateLimitError(Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : 1);
+};
+
 interface MessageResponse {
   message?: Message;
   messages?: Message[];
+  nextCursor?: number; // Pass as `since` on the next poll
+  receipts?: MessageReceipt[];
+  partnerLeft?: PartnerLeft; // Set once the stranger has left the chat
   success: boolean;
   error?: string;
+  rateLimitError?: RateLimitError;
+  rejection?: MessageRejection;
+  retryable?: boolean; // The request failed in a way that may work next time
 }
 
 // Generate a unique message ID
@@ -23,38 +77,76 @@ export const generateMessageId = (): string => {
   return generateRandomString(16);
 };
 
-// Send a message to another user
-export const sendMessage = async (
-  content: string,
-  senderId: string,
-  receiverId: string,
-  chatSessionId: string
-): Promise<MessageResponse> => {
+// Derive the NIP-44 conversation key shared by both peers
+const getConversationKey = (keys: MessageKeys) => {
+  // Convert hex private key to Uint8Array
+  const privateKeyBytes = new Uint8Array(keys.privateKey.match(/.{1,2}/g)?.map(byte => parseInt(byte, 16)) || []);
+  return nip44.getConversationKey(privateKeyBytes, keys.partnerPubkey);
+};
+
+// Encrypt message content for the chat partner with NIP-44 v2
+export const encryptMessageContent = (content: string, keys: MessageKeys): string => {
+  return nip44.encrypt(content, getConversationKey(keys));
+};
+
+// Decrypt message content from either side of the chat
+// Both peers derive the same conversation key, so this also works for our own messages
+export const decryptMessageContent = (payload: string, keys: MessageKeys): string | null => {
+  try {
+    return nip44.decrypt(payload, getConversationKey(keys));
+  } catch (error) {
+    logger.error('Failed to decrypt message', error);
+    return null;
+  }
+};
+
+export interface SendMessageOptions {
+  id?: string; // Our local ID for the message, so receipts can be matched to it
+}
+
+// A message as posted to the messages API, with its content already encrypted
+export interface OutgoingMessage {
+  id: string;
+  content: string;
+  senderId: string;
+  receiverId: string;
+  chatSessionId: string;
+}
+
+// Post a message to the API
+// Posting the same ID again is harmless; the server keeps the first copy.
+const postMessage = async (message: OutgoingMessage): Promise<MessageResponse> => {
+  const { id: messageId, senderId, receiverId, chatSessionId } = message;
+  
   try {
-    const messageId = generateMessageId();
-    
     logger.info('Sending message to API', { 
       messageId,
       senderId: senderId.substring(0, 8),
       receiverId: receiverId.substring(0, 8),
-      chatSessionId,
-      contentPreview: content.substring(0, 20)
+      chatSessionId
     });
     
     const response = await fetch('/api/messages', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(senderId),
       },
-      body: JSON.stringify({
-        id: messageId,
-        content,
-        senderId,
-        receiverId,
-        chatSessionId
-      }),
+      body: JSON.stringify(message),
     });
     
+    const rateLimitError = getRateLimitError(response);
+    if (rateLimitError) {
+      logger.warn('Message send was rate limited', { retryAfter: rateLimitError.retryAfter, messageId });
+      return { success: false, error: rateLimitError.message, rateLimitError };
+    }
+    
+    if (response.status === 422) {
+      const rejection: MessageRejection = await response.json();
+      logger.warn('Message was rejected by the server', { filter: rejection.filter, messageId });
+      return { success: false, error: rejection.reason, rejection };
+    }
+    
     if (!response.ok) {
       const errorText = await response.text();
       logger.error('Failed to send message', { 
@@ -62,7 +154,7 @@ export const sendMessage = async (
         error: errorText,
         messageId
       });
-      return { success: false, error: errorText };
+      return { success: false, error: errorText, retryable: response.status >= 500 };
     }
     
     const data = await response.json();
@@ -75,36 +167,58 @@ export const sendMessage = async (
     
     return data;
   } catch (error) {
+    // Most likely offline
     logger.error('Error sending message', error);
-    return { success: false, error: 'Failed to send message' };
+    return { success: false, error: 'Failed to send message', retryable: true };
   }
 };
 
-// Check for new messages
+// Messages waiting to be posted, kept per chat until the server has them
+export const messageOutbox = createOutbox<OutgoingMessage>('messages', async (message): Promise<DeliveryResult> => {
+  const response = await postMessage(message);
+  
+  if (response.success) {
+    return { outcome: 'sent' };
+  }
+  if (response.rateLimitError) {
+    return { outcome: 'retry', error: response.error, retryAfter: response.rateLimitError.retryAfter };
+  }
+  return response.retryable
+    ? { outcome: 'retry', error: response.error }
+    : { outcome: 'rejected', error: response.error };
+});
+
+// Prepare a message to another user for the outbox
+// The content is encrypted here, so the server and the outbox only ever see ciphertext.
+export const createOutgoingMessage = (
+  content: string,
+  senderId: string,
+  receiverId: string,
+  chatSessionId: string,
+  keys: MessageKeys,
+  options: SendMessageOptions = {}
+): OutgoingMessage => ({
+  id: options.id || generateMessageId(),
+  content: encryptMessageContent(content, keys),
+  senderId,
+  receiverId,
+  chatSessionId
+});
+
+// Check for messages in a chat after the cursor `since`
+// Start from 0 and pass the returned nextCursor each time to see every message once.
 export const checkForMessages = async (
   userId: string,
-  afterTimestamp?: number,
-  chatSessionId?: string
+  chatSessionId: string,
+  since: number = 0
 ): Promise<MessageResponse> => {
   try {
-    let url = `/api/messages?userId=${encodeURIComponent(userId)}`;
-    
-    if (afterTimestamp) {
-      url += `&after=${afterTimestamp}`;
-    }
-    
-    if (chatSessionId) {
-      url += `&chatSessionId=${encodeURIComponent(chatSessionId)}`;
-    } else {
-      logger.warn('No chatSessionId provided when checking for messages', {
-        userId: userId.substring(0, 8)
-      });
-    }
+    const url = `/api/messages?userId=${encodeURIComponent(userId)}` +
+      `&chatSessionId=${encodeURIComponent(chatSessionId)}&since=${since}`;
     
     logger.debug('Checking for messages', {
       userId: userId.substring(0, 8),
-      afterTimestamp,
-      afterTimestampStr: afterTimestamp ? new Date(afterTimestamp).toISOString() : 'none',
+      since,
       chatSessionId,
       url
     });
@@ -114,7 +228,8 @@ export const checkForMessages = async (
       cache: 'no-store',
       headers: {
         'Cache-Control': 'no-cache',
-        'Pragma': 'no-cache'
+        'Pragma': 'no-cache',
+        ...getAuthHeaders(userId)
       }
     });
     
@@ -138,14 +253,13 @@ export const checkForMessages = async (
         messageIds: data.messages.map((m: Message) => m.id.substring(0, 8))
       });
       
-      // Log message previews for debugging
+      // Log message details for debugging
       data.messages.forEach((msg: Message) => {
-        logger.debug('Message content', {
+        logger.debug('Message received', {
           id: msg.id.substring(0, 8),
           from: msg.senderId.substring(0, 8),
           to: msg.receiverId.substring(0, 8),
-          chatSessionId: msg.chatSessionId,
-          content: msg.content.substring(0, 30)
+          chatSessionId: msg.chatSessionId
         });
       });
     } else {
@@ -160,4 +274,34 @@ export const checkForMessages = async (
     logger.error('Error checking for messages', error);
     return { success: false, error: 'Failed to check for messages' };
   }
-}; 
\ No newline at end of file
+};
+
+// Tell the sender we got, or saw, their messages
+export const acknowledgeMessages = async (
+  userId: string,
+  chatSessionId: string,
+  messageIds: string[],
+  status: 'delivered' | 'read'
+): Promise<MessageResponse> => {
+  try {
+    const response = await fetch('/api/messages', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(userId),
+      },
+      body: JSON.stringify({ userId, chatSessionId, messageIds, status }),
+    });
+    
+    if (!response.ok) {
+      const errorText = await response.text();
+      logger.warn('Failed to acknowledge messages', { status: response.status, error: errorText });
+      return { success: false, error: errorText };
+    }
+    
+    return await response.json();
+  } catch (error) {
+    logger.error('Error acknowledging messages', error);
+    return { success: false, error: 'Failed to acknowledge messages' };
+  }
+};
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createOutbox, DeliveryResult } from './outbox';
+
+// localStorage for Node, with stored items as own properties like the browser's
+class MemoryStorage {
+  [key: string]: unknown;
+
+  getItem(key: string) {
+    return Object.prototype.hasOwnProperty.call(this, key) ? String(this[key]) : null;
+  }
+
+  setItem(key: string, value: string) {
+    this[key] = String(value);
+  }
+
+  removeItem(key: string) {
+    delete this[key];
+  }
+}
+
+let storage: MemoryStorage;
+
+beforeEach(() => {
+  storage = new MemoryStorage();
+  vi.stubGlobal('window', {});
+  vi.stubGlobal('localStorage', storage);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+// Each test gets its own outbox name, since outboxes with the same name share entries
+let outboxCount = 0;
+const createTestOutbox = (deliver: (payload: string) => Promise<DeliveryResult>) =>
+  createOutbox<string>(`test-${outboxCount++}`, deliver);
+
+describe('createOutbox', () => {
+  it('delivers messages in the order they were added', async () => {
+    const delivered: string[] = [];
+    const outbox = createTestOutbox(async payload => {
+      delivered.push(payload);
+      return { outcome: 'sent' };
+    });
+
+    outbox.add('chat', 'a', 'first');
+    outbox.add('chat', 'b', 'second');
+    const updates = await outbox.flush('chat');
+
+    expect(delivered).toEqual(['first', 'second']);
+    expect(updates).toEqual([{ id: 'a', status: 'sent' }, { id: 'b', status: 'sent' }]);
+    expect(outbox.nextAttemptAt('chat')).toBeNull();
+  });
+
+  it('holds later messages back until a failed one is delivered', async () => {
+    let online = false;
+    const delivered: string[] = [];
+    const outbox = createTestOutbox(async payload => {
+      if (!online) return { outcome: 'retry', error: 'offline' };
+      delivered.push(payload);
+      return { outcome: 'sent' };
+    });
+
+    outbox.add('chat', 'a', 'first');
+    outbox.add('chat', 'b', 'second');
+
+    expect(await outbox.flush('chat')).toEqual([{ id: 'a', status: 'queued', error: 'offline', retryAfter: undefined }]);
+    expect(outbox.nextAttemptAt('chat')).toBeGreaterThan(Date.now());
+    // Still backing off
+    expect(await outbox.flush('chat')).toEqual([]);
+
+    online = true;
+    await outbox.flush('chat', true);
+    expect(delivered).toEqual(['first', 'second']);
+  });
+
+  it('drops a message the server rejects', async () => {
+    const outbox = createTestOutbox(async () => ({ outcome: 'rejected', error: 'too long' }));
+
+    outbox.add('chat', 'a', 'first');
+
+    expect(await outbox.flush('chat')).toEqual([{ id: 'a', status: 'failed', error: 'too long' }]);
+    expect(outbox.nextAttemptAt('chat')).toBeNull();
+  });
+
+  it('ignores a message added twice', async () => {
+    const delivered: string[] = [];
+    const outbox = createTestOutbox(async payload => {
+      delivered.push(payload);
+      return { outcome: 'sent' };
+    });
+
+    outbox.add('chat', 'a', 'first');
+    outbox.add('chat', 'a', 'first');
+    await outbox.flush('chat');
+
+    expect(delivered).toEqual(['first']);
+  });
+
+  it('keeps unsent messages in localStorage, so a reloaded page can still send them', async () => {
+    const name = `test-${outboxCount++}`;
+    createOutbox<string>(name, async () => ({ outcome: 'retry' })).add('chat', 'a', 'first');
+    expect(storage.getItem(`omestr_outbox_${name}_chat`)).toContain('first');
+
+    const delivered: string[] = [];
+    const remounted = createOutbox<string>(name, async payload => {
+      delivered.push(payload);
+      return { outcome: 'sent' };
+    });
+    await remounted.flush('chat', true);
+
+    expect(delivered).toEqual(['first']);
+    expect(storage.getItem(`omestr_outbox_${name}_chat`)).toBeNull();
+  });
+
+  it('keeps each chat to itself, so leftovers never hold up the next chat', async () => {
+    const delivered: string[] = [];
+    const outbox = createTestOutbox(async payload => {
+      if (payload === 'stuck') return { outcome: 'retry' };
+      delivered.push(payload);
+      return { outcome: 'sent' };
+    });
+
+    outbox.add('old-chat', 'a', 'stuck');
+    await outbox.flush('old-chat');
+    outbox.add('new-chat', 'b', 'hello');
+    await outbox.flush('new-chat');
+
+    expect(delivered).toEqual(['hello']);
+    expect(outbox.nextAttemptAt('old-chat')).not.toBeNull();
+  });
+
+  it('drops everything waiting for a chat once it is cleared', async () => {
+    const outbox = createTestOutbox(async () => ({ outcome: 'retry' }));
+
+    outbox.add('chat', 'a', 'first');
+    outbox.clear('chat');
+
+    expect(outbox.nextAttemptAt('chat')).toBeNull();
+    expect(Object.keys(storage)).toEqual([]);
+  });
+
+  it('forgets messages too old to send', async () => {
+    vi.useFakeTimers();
+    const outbox = createTestOutbox(async () => ({ outcome: 'retry' }));
+    outbox.add('chat', 'a', 'first');
+
+    vi.advanceTimersByTime(60 * 60 * 1000);
+    outbox.prune();
+
+    expect(Object.keys(storage)).toEqual([]);
+  });
+});
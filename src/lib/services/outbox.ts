@@ -0,0 +1,187 @@
+import { logger } from '../nostr/logger';
+
+// Unsent messages are kept in localStorage under this prefix, one key per outbox name and chat
+const OUTBOX_STORAGE_PREFIX = 'omestr_outbox_';
+
+// Wait 1s, 2s, 4s... between attempts, up to a minute
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 60 * 1000;
+
+// Give up on a message after this many attempts, or once the server would have dropped it anyway
+const MAX_ATTEMPTS = 8;
+const MAX_ENTRY_AGE = 60 * 60 * 1000; // 1 hour
+
+export interface OutboxEntry<T> {
+  id: string;
+  payload: T;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+}
+
+// What one delivery attempt came to
+// retry: try again later (retryAfter in seconds, if the server said); rejected: never going to work
+export type DeliveryResult =
+  | { outcome: 'sent' }
+  | { outcome: 'retry'; error?: string; retryAfter?: number }
+  | { outcome: 'rejected'; error?: string };
+
+// What became of a message after an attempt
+export type OutboxUpdate =
+  | { id: string; status: 'sent' }
+  | { id: string; status: 'queued'; error?: string; retryAfter?: number }
+  | { id: string; status: 'failed'; error?: string };
+
+export interface Outbox<T> {
+  add: (chatSessionId: string, id: string, payload: T) => void;
+  flush: (chatSessionId: string, force?: boolean) => Promise<OutboxUpdate[]>;
+  nextAttemptAt: (chatSessionId: string) => number | null;
+  clear: (chatSessionId: string) => void;
+  prune: () => void;
+}
+
+export const getRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY);
+
+// Create an outbox that delivers payloads with `deliver`, in the order they were added
+// Entries stay until they're sent, rejected or out of attempts, so the same ID may be
+// delivered more than once; receivers must ignore repeats.
+export const createOutbox = <T>(
+  name: string,
+  deliver: (payload: T) => Promise<DeliveryResult>
+): Outbox<T> => {
+  // Outboxes with the same name share entries, so a chat that remounts or reloads picks them up again
+  const getStorageKey = (chatSessionId: string) => `${OUTBOX_STORAGE_PREFIX}${name}_${chatSessionId}`;
+
+  // Flushes of a chat run one after another, so messages never overtake each other
+  const flushes = new Map<string, Promise<OutboxUpdate[]>>();
+
+  // A chat's entries, without any too old to send
+  const load = (chatSessionId: string): OutboxEntry<T>[] => {
+    if (typeof window === 'undefined') return [];
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(getStorageKey(chatSessionId)) || '[]');
+      const now = Date.now();
+      return Array.isArray(stored)
+        ? stored.filter(entry => typeof entry?.id === 'string' && now - entry.createdAt < MAX_ENTRY_AGE)
+        : [];
+    } catch (error) {
+      logger.error('Failed to load outbox', { chatSessionId, error });
+      return [];
+    }
+  };
+
+  const save = (chatSessionId: string, entries: OutboxEntry<T>[]) => {
+    if (typeof window === 'undefined') return;
+
+    try {
+      if (entries.length === 0) {
+        localStorage.removeItem(getStorageKey(chatSessionId));
+      } else {
+        localStorage.setItem(getStorageKey(chatSessionId), JSON.stringify(entries));
+      }
+    } catch (error) {
+      logger.error('Failed to save outbox', { chatSessionId, error });
+    }
+  };
+
+  // Attempt one entry and record how it went
+  const attempt = async (chatSessionId: string, entry: OutboxEntry<T>): Promise<OutboxUpdate> => {
+    let result: DeliveryResult;
+    try {
+      result = await deliver(entry.payload);
+    } catch (error) {
+      result = { outcome: 'retry', error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const entries = load(chatSessionId);
+    const index = entries.findIndex(stored => stored.id === entry.id);
+
+    if (result.outcome === 'retry') {
+      const attempts = entry.attempts + 1;
+      if (attempts < MAX_ATTEMPTS && index >= 0) {
+        const delay = Math.max(getRetryDelay(attempts), (result.retryAfter || 0) * 1000);
+        entries[index] = { ...entries[index], attempts, nextAttemptAt: Date.now() + delay };
+        save(chatSessionId, entries);
+
+        logger.warn('Message not delivered, will retry', { id: entry.id.substring(0, 8), attempts, delay });
+        return { id: entry.id, status: 'queued', error: result.error, retryAfter: result.retryAfter };
+      }
+    }
+
+    if (index >= 0) {
+      entries.splice(index, 1);
+      save(chatSessionId, entries);
+    }
+
+    if (result.outcome === 'sent') {
+      return { id: entry.id, status: 'sent' };
+    }
+
+    logger.error('Giving up on message', { id: entry.id.substring(0, 8), error: result.error });
+    return { id: entry.id, status: 'failed', error: result.error };
+  };
+
+  // Attempt due entries in order, stopping at the first that has to wait
+  const run = async (chatSessionId: string, force: boolean) => {
+    const updates: OutboxUpdate[] = [];
+
+    for (const entry of load(chatSessionId)) {
+      if (!force && entry.nextAttemptAt > Date.now()) break;
+
+      const update = await attempt(chatSessionId, entry);
+      updates.push(update);
+      if (update.status === 'queued') break;
+    }
+
+    return updates;
+  };
+
+  return {
+    add: (chatSessionId, id, payload) => {
+      const entries = load(chatSessionId);
+      if (entries.some(entry => entry.id === id)) return;
+
+      const now = Date.now();
+      entries.push({ id, payload, attempts: 0, nextAttemptAt: now, createdAt: now });
+      save(chatSessionId, entries);
+    },
+
+    // Pass force to ignore the backoff, e.g. when connectivity returns
+    flush: (chatSessionId, force = false) => {
+      const previous = flushes.get(chatSessionId) || Promise.resolve([]);
+      const next = previous.then(() => run(chatSessionId, force));
+      flushes.set(chatSessionId, next);
+
+      next.finally(() => {
+        if (flushes.get(chatSessionId) === next) flushes.delete(chatSessionId);
+      });
+      return next;
+    },
+
+    // Entries go in order, so the first one decides when the outbox can move again
+    nextAttemptAt: (chatSessionId) => {
+      const [first] = load(chatSessionId);
+      return first ? first.nextAttemptAt : null;
+    },
+
+    // Drop everything waiting for a chat, e.g. once it's over
+    clear: (chatSessionId) => {
+      save(chatSessionId, []);
+    },
+
+    // Forget outboxes of chats that ended long enough ago that nothing in them could still be sent
+    prune: () => {
+      if (typeof window === 'undefined') return;
+
+      const prefix = `${OUTBOX_STORAGE_PREFIX}${name}_`;
+      Object.keys(localStorage)
+        .filter(key => key.startsWith(prefix))
+        .forEach(key => {
+          const chatSessionId = key.slice(prefix.length);
+          save(chatSessionId, load(chatSessionId));
+        });
+    },
+  };
+};
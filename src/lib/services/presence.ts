@@ -0,0 +1,48 @@
+import { logger } from '../nostr/logger';
+import { getAuthHeaders, getUserToken } from './userToken';
+
+interface HeartbeatResponse {
+  success: boolean;
+  expired?: boolean; // The server already removed us for missing heartbeats
+  error?: string;
+}
+
+// Tell the server we're still here
+export const sendHeartbeat = async (userId: string): Promise<HeartbeatResponse> => {
+  try {
+    const response = await fetch('/api/heartbeat', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(userId),
+      },
+      body: JSON.stringify({ userId }),
+    });
+    
+    if (response.status === 404) {
+      logger.warn('Heartbeat found we had already expired', { userId });
+      return { success: false, expired: true };
+    }
+    
+    if (!response.ok) {
+      const errorText = await response.text();
+      logger.debug('Failed to send heartbeat', { status: response.status, error: errorText });
+      return { success: false, error: errorText };
+    }
+    
+    return { success: true };
+  } catch (error) {
+    logger.debug('Error sending heartbeat', error);
+    return { success: false, error: 'Failed to send heartbeat' };
+  }
+};
+
+// Leave as the page goes away, when a normal request might be cancelled
+// Beacons can't carry headers, so the token goes in the body.
+export const sendLeaveBeacon = (userId: string): boolean => {
+  const token = getUserToken(userId);
+  if (!token || typeof navigator === 'undefined' || !navigator.sendBeacon) return false;
+  
+  const body = new Blob([JSON.stringify({ userId, token, reason: 'closed' })], { type: 'application/json' });
+  return navigator.sendBeacon('/api/leave', body);
+};
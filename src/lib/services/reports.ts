@@ -0,0 +1,72 @@
+import { logger } from '../nostr/logger';
+import { getAuthHeaders } from './userToken';
+import { getRateLimitError } from './messaging';
+
+export type ReportReason = 'spam' | 'harassment' | 'inappropriate' | 'underage' | 'other';
+
+// A message from the chat, decrypted, that the reporter agreed to share
+export interface ReportedMessage {
+  sender: 'reporter' | 'reported';
+  content: string;
+  timestamp: number;
+}
+
+interface ReportResponse {
+  reportId?: string;
+  success: boolean;
+  error?: string;
+}
+
+// Report a chat partner to the server's moderators
+// `filter` names the content filter their message tripped, for reports the browser sends by itself.
+export const reportUser = async (
+  reporterId: string,
+  reportedId: string,
+  reportedPubkey: string,
+  reportedBrowserKey: string | undefined,
+  chatSessionId: string,
+  reason: ReportReason,
+  details?: string,
+  messages: ReportedMessage[] = [],
+  filter?: string
+): Promise<ReportResponse> => {
+  try {
+    const response = await fetch('/api/reports', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(reporterId),
+      },
+      body: JSON.stringify({
+        reporterId,
+        reportedId,
+        reportedPubkey,
+        reportedBrowserKey,
+        chatSessionId,
+        reason,
+        details,
+        messages,
+        filter
+      }),
+    });
+    
+    const rateLimitError = getRateLimitError(response);
+    if (rateLimitError) {
+      logger.warn('Report was rate limited', { retryAfter: rateLimitError.retryAfter });
+      return { success: false, error: rateLimitError.message };
+    }
+    
+    if (!response.ok) {
+      const errorText = await response.text();
+      logger.error('Failed to send report', { status: response.status, error: errorText });
+      return { success: false, error: errorText };
+    }
+    
+    const data = await response.json();
+    logger.info('Report sent', { reportId: data.reportId, reason, messageCount: messages.length });
+    return data;
+  } catch (error) {
+    logger.error('Error sending report', error);
+    return { success: false, error: 'Failed to send report' };
+  }
+};
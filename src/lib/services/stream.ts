@@ -0,0 +1,179 @@
+import { logger } from '../nostr/logger';
+import type { MatchUser, PartnerLeft, QueueSummary } from './matchmaking';
+import type { Message, MessageReceipt, Reaction } from './messaging';
+import { getUserToken } from './userToken';
+
+export interface StreamHandlers {
+  onMatchFound?: (match: MatchUser) => void;
+  onQueue?: (queue: QueueSummary) => void;
+  onMessages?: (messages: Message[]) => void;
+  onReceipts?: (receipts: MessageReceipt[]) => void;
+  onReactions?: (reactions: Reaction[]) => void;
+  onTyping?: (typing: boolean) => void;
+  onPartnerLeft?: (partnerLeft: PartnerLeft) => void;
+  onOpen?: () => void; // Also called each time the browser reconnects
+  onClosed?: () => void; // The server refused the stream; it is reopened after a delay
+}
+
+// Check whether the browser can receive Server-Sent Events
+export const isEventStreamSupported = (): boolean => {
+  return typeof window !== 'undefined' && typeof EventSource !== 'undefined';
+};
+
+// Parse an event payload, logging rather than throwing on bad data
+const parseEventData = <T>(event: MessageEvent, type: string): T | null => {
+  try {
+    return JSON.parse(event.data) as T;
+  } catch (error) {
+    logger.error('Failed to parse stream event', { type, error });
+    return null;
+  }
+};
+
+// How long to wait before reopening a stream the browser gave up on, doubling each time
+const REOPEN_DELAY = 1000;
+const MAX_REOPEN_DELAY = 30 * 1000;
+
+// Open the server event stream for a user
+// Without chatSessionId it reports the queue and the match; with one it reports chat activity.
+// Returns a function that closes the stream, or null if EventSource is unavailable.
+export const openEventStream = (
+  userId: string,
+  chatSessionId: string | undefined,
+  handlers: StreamHandlers
+): (() => void) | null => {
+  if (!isEventStreamSupported()) {
+    return null;
+  }
+  
+  let source: EventSource | null = null;
+  let reopenTimer: ReturnType<typeof setTimeout> | null = null;
+  let reopenDelay = REOPEN_DELAY;
+  let closed = false;
+  // ID of the last `message` event, so a reopened stream resumes after it
+  let lastEventId = '';
+  
+  const buildUrl = () => {
+    let url = `/api/stream?userId=${encodeURIComponent(userId)}`;
+    if (chatSessionId) {
+      url += `&chatSessionId=${encodeURIComponent(chatSessionId)}`;
+    }
+    
+    // EventSource can't send an Authorization header, so the token goes in the URL
+    const token = getUserToken(userId);
+    if (token) {
+      url += `&token=${token}`;
+    }
+    
+    // A new EventSource doesn't send Last-Event-ID, so pass it along ourselves
+    if (lastEventId) {
+      url += `&lastEventId=${encodeURIComponent(lastEventId)}`;
+    }
+    return url;
+  };
+  
+  const connect = () => {
+    const current = new EventSource(buildUrl());
+    source = current;
+    
+    current.addEventListener('match-found', (event) => {
+      const data = parseEventData<{ match: MatchUser }>(event as MessageEvent, 'match-found');
+      if (data?.match) {
+        handlers.onMatchFound?.(data.match);
+      }
+    });
+    
+    current.addEventListener('queue', (event) => {
+      const data = parseEventData<{ queue: QueueSummary }>(event as MessageEvent, 'queue');
+      if (data?.queue) {
+        handlers.onQueue?.(data.queue);
+      }
+    });
+    
+    current.addEventListener('message', (event) => {
+      const message = event as MessageEvent;
+      if (message.lastEventId) {
+        lastEventId = message.lastEventId;
+      }
+      const data = parseEventData<{ messages: Message[] }>(message, 'message');
+      if (data?.messages) {
+        handlers.onMessages?.(data.messages);
+      }
+    });
+    
+    current.addEventListener('receipt', (event) => {
+      const data = parseEventData<{ receipts: MessageReceipt[] }>(event as MessageEvent, 'receipt');
+      if (data?.receipts) {
+        handlers.onReceipts?.(data.receipts);
+      }
+    });
+    
+    current.addEventListener('reaction', (event) => {
+      const data = parseEventData<{ reactions: Reaction[] }>(event as MessageEvent, 'reaction');
+      if (data?.reactions) {
+        handlers.onReactions?.(data.reactions);
+      }
+    });
+    
+    current.addEventListener('typing', (event) => {
+      const data = parseEventData<{ typing: boolean }>(event as MessageEvent, 'typing');
+      if (data) {
+        handlers.onTyping?.(data.typing);
+      }
+    });
+    
+    current.addEventListener('partner-left', (event) => {
+      const data = parseEventData<PartnerLeft>(event as MessageEvent, 'partner-left');
+      if (data) {
+        handlers.onPartnerLeft?.(data);
+      }
+    });
+    
+    current.onopen = () => {
+      reopenDelay = REOPEN_DELAY;
+      handlers.onOpen?.();
+    };
+    
+    // EventSource reconnects by itself after a dropped connection, but gives up for good
+    // on an error response such as a 429 or 401, so reopen it ourselves with backoff
+    current.onerror = () => {
+      if (current.readyState !== EventSource.CLOSED) {
+        logger.warn('Event stream error, browser will reconnect', {
+          userId: userId.substring(0, 8)
+        });
+        return;
+      }
+      
+      current.close();
+      if (closed || reopenTimer) return;
+      
+      logger.warn('Event stream closed by the server, reopening', {
+        userId: userId.substring(0, 8),
+        delay: reopenDelay
+      });
+      handlers.onClosed?.();
+      reopenTimer = setTimeout(() => {
+        reopenTimer = null;
+        if (!closed) connect();
+      }, reopenDelay);
+      reopenDelay = Math.min(reopenDelay * 2, MAX_REOPEN_DELAY);
+    };
+  };
+  
+  connect();
+  
+  logger.info('Opened event stream', {
+    userId: userId.substring(0, 8),
+    chatSessionId
+  });
+  
+  return () => {
+    closed = true;
+    if (reopenTimer) clearTimeout(reopenTimer);
+    source?.close();
+    logger.info('Closed event stream', {
+      userId: userId.substring(0, 8),
+      chatSessionId
+    });
+  };
+};
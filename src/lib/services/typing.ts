@@ -0,0 +1,48 @@
+import { logger } from '../nostr/logger';
+import { getAuthHeaders } from './userToken';
+
+// Tell the partner we started or stopped typing
+// Typing signals are best-effort, so failures are only logged.
+export const sendTypingSignal = async (
+  userId: string,
+  chatSessionId: string,
+  typing: boolean
+): Promise<void> => {
+  try {
+    const response = await fetch('/api/typing', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(userId),
+      },
+      body: JSON.stringify({ userId, chatSessionId, typing }),
+    });
+    
+    if (!response.ok) {
+      logger.debug('Failed to send typing signal', { status: response.status });
+    }
+  } catch (error) {
+    logger.debug('Error sending typing signal', error);
+  }
+};
+
+// Check whether the partner is typing, for browsers without the event stream
+export const checkPartnerTyping = async (
+  userId: string,
+  chatSessionId: string
+): Promise<boolean> => {
+  try {
+    const response = await fetch(
+      `/api/typing?userId=${encodeURIComponent(userId)}&chatSessionId=${encodeURIComponent(chatSessionId)}`,
+      { cache: 'no-store', headers: getAuthHeaders(userId) }
+    );
+    
+    if (!response.ok) return false;
+    
+    const data = await response.json();
+    return !!data.typing;
+  } catch (error) {
+    logger.debug('Error checking partner typing', error);
+    return false;
+  }
+};
@@ -0,0 +1,20 @@
+// Tokens issued by the matchmaking API when a user ID is first registered
+// Requests that act as a user (updating, removing, sending) must present the token,
+// so nobody who merely knows the ID can kick us out or speak for us.
+const userTokens = new Map<string, string>();
+
+export const setUserToken = (userId: string, token: string) => {
+  userTokens.set(userId, token);
+};
+
+export const clearUserToken = (userId: string) => {
+  userTokens.delete(userId);
+};
+
+export const getUserToken = (userId: string): string | undefined => userTokens.get(userId);
+
+// Headers proving ownership of a user ID, empty if we were never issued a token for it
+export const getAuthHeaders = (userId: string): Record<string, string> => {
+  const token = userTokens.get(userId);
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
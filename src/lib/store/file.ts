@@ -0,0 +1,136 @@
+import { promises as fs, watchFile, unwatchFile } from 'fs';
+import path from 'path';
+import { createEmptyData, Store, StoreData, UpdateTopics } from './types';
+import { createListeners, resolveTopics } from './listeners';
+
+// How long to wait for another worker to release the lock
+const LOCK_TIMEOUT = 5000;
+
+// Locks older than this are assumed to belong to a crashed worker
+const STALE_LOCK_AGE = 10000;
+
+const LOCK_RETRY_DELAY = 10;
+
+// How often to check the file for writes made by other workers
+const WATCH_INTERVAL = 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Acquire an exclusive lock shared by every process using the same file
+const acquireLock = async (lockPath: string) => {
+  const startTime = Date.now();
+  
+  while (true) {
+    try {
+      await fs.mkdir(lockPath);
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+    
+    // Break locks left behind by a crashed worker
+    try {
+      const stats = await fs.stat(lockPath);
+      if (Date.now() - stats.mtimeMs > STALE_LOCK_AGE) {
+        await fs.rmdir(lockPath);
+        continue;
+      }
+    } catch (_error) {
+      // Lock was released between mkdir and stat, try again
+      continue;
+    }
+    
+    if (Date.now() - startTime > LOCK_TIMEOUT) {
+      throw new Error(`Timed out waiting for store lock ${lockPath}`);
+    }
+    
+    await sleep(LOCK_RETRY_DELAY);
+  }
+};
+
+const releaseLock = async (lockPath: string) => {
+  await fs.rmdir(lockPath).catch(() => {});
+};
+
+// Load the data file, treating a missing file as an empty store
+const loadData = async (filePath: string): Promise<StoreData> => {
+  try {
+    const contents = await fs.readFile(filePath, 'utf8');
+    return { ...createEmptyData(), ...JSON.parse(contents) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return createEmptyData();
+    }
+    throw error;
+  }
+};
+
+// Write via a temporary file so readers never see a partial write
+const saveData = async (filePath: string, data: StoreData) => {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data));
+  await fs.rename(tempPath, filePath);
+};
+
+// File-backed store
+// State survives restarts and is shared by every worker pointed at the same file.
+// The file is re-read on every call, so it is meant for small deployments.
+export const createFileStore = (filePath: string): Store => {
+  const lockPath = `${filePath}.lock`;
+  
+  // Serialise calls within this process before taking the cross-process lock
+  let queue: Promise<unknown> = Promise.resolve();
+  
+  const listeners = createListeners();
+  
+  // The file changes for our own writes too, so this can't tell whose write it was or what
+  // it touched. It wakes every listener, but at most once per WATCH_INTERVAL.
+  const onFileChange = () => listeners.notify();
+  
+  const run = <T>(fn: (data: StoreData) => T, write: boolean, topics?: UpdateTopics<T>): Promise<T> => {
+    const result = queue.then(async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await acquireLock(lockPath);
+      
+      try {
+        const data = await loadData(filePath);
+        const value = fn(data);
+        
+        if (write) {
+          await saveData(filePath, data);
+        }
+        
+        return value;
+      } finally {
+        await releaseLock(lockPath);
+      }
+    });
+    
+    if (write) {
+      result.then(value => listeners.notify(resolveTopics(topics, value)), () => {});
+    }
+    
+    // Keep the queue going even if this call fails
+    queue = result.catch(() => {});
+    return result;
+  };
+  
+  return {
+    read: (fn) => run(fn, false),
+    update: (fn, topics) => run(fn, true, topics),
+    subscribe: (listener, topics) => {
+      // Watch the file only while someone is listening, to pick up other workers' writes
+      if (listeners.size === 0) {
+        watchFile(filePath, { interval: WATCH_INTERVAL }, onFileChange);
+      }
+      const remove = listeners.add(listener, topics);
+      
+      return () => {
+        remove();
+        if (listeners.size === 0) {
+          unwatchFile(filePath, onFileChange);
+        }
+      };
+    },
+  };
+};
@@ -0,0 +1,56 @@
+import path from 'path';
+import { createFileStore } from './file';
+import { createMemoryStore } from './memory';
+import type { Store } from './types';
+
+export type {
+  Store,
+  StoreData,
+  LookingUser,
+  ChatMessage,
+  ReceiptStatus,
+  MessageReceipt,
+  Reaction,
+  RecentPartner,
+  Report,
+  ReportedMessage,
+  Ban,
+  BanType,
+  TypingState,
+  DisconnectReason,
+  EndedChat,
+  StoreTopic,
+  UpdateTopics
+} from './types';
+export { createEmptyData } from './types';
+export { userTopic, chatTopic } from './listeners';
+export { createMemoryStore } from './memory';
+export { createFileStore } from './file';
+
+// Keep the store on globalThis so dev-server reloads reuse the same instance
+const globalForStore = globalThis as typeof globalThis & { omestrStore?: Store };
+
+// Create the store selected by the environment
+// OMESTR_STORE=file persists state to OMESTR_STORE_PATH (default .omestr/store.json)
+const createStoreFromEnv = (): Store => {
+  if (process.env.OMESTR_STORE === 'file') {
+    const filePath = process.env.OMESTR_STORE_PATH || path.join(process.cwd(), '.omestr', 'store.json');
+    console.log(`[Store] Using file store at ${filePath}`);
+    return createFileStore(filePath);
+  }
+  
+  return createMemoryStore();
+};
+
+// Get the store shared by all API routes
+export const getStore = (): Store => {
+  if (!globalForStore.omestrStore) {
+    globalForStore.omestrStore = createStoreFromEnv();
+  }
+  return globalForStore.omestrStore;
+};
+
+// Replace the shared store, e.g. with a fresh memory store in tests
+export const setStore = (store: Store) => {
+  globalForStore.omestrStore = store;
+};
@@ -0,0 +1,35 @@
+import type { StoreTopic, UpdateTopics } from './types';
+
+export const userTopic = (userId: string): StoreTopic => `user:${userId}`;
+export const chatTopic = (chatSessionId: string): StoreTopic => `chat:${chatSessionId}`;
+
+// Work out which topics an update changed
+export const resolveTopics = <T>(topics: UpdateTopics<T> | undefined, value: T) =>
+  typeof topics === 'function' ? topics(value) : topics;
+
+// A store's listeners, woken only for the updates they follow
+export const createListeners = () => {
+  const listeners = new Map<() => void, StoreTopic[] | undefined>();
+
+  return {
+    add: (listener: () => void, topics?: StoreTopic[]) => {
+      listeners.set(listener, topics);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    get size() {
+      return listeners.size;
+    },
+    // Wake the listeners following any of the changed topics, or all of them when those aren't known
+    notify: (changed?: StoreTopic[]) => {
+      if (changed?.length === 0) return;
+
+      listeners.forEach((topics, listener) => {
+        if (!changed || !topics || topics.some(topic => changed.includes(topic))) {
+          listener();
+        }
+      });
+    },
+  };
+};
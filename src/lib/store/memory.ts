@@ -0,0 +1,20 @@
+import { createEmptyData, Store, StoreData } from './types';
+import { createListeners, resolveTopics } from './listeners';
+
+// In-memory store
+// This will be reset when the server restarts and is not shared between workers
+export const createMemoryStore = (initialData: StoreData = createEmptyData()): Store => {
+  const data = initialData;
+  const listeners = createListeners();
+  
+  return {
+    // Callbacks are synchronous, so running them directly is already atomic
+    read: async (fn) => fn(data),
+    update: async (fn, topics) => {
+      const value = fn(data);
+      listeners.notify(resolveTopics(topics, value));
+      return value;
+    },
+    subscribe: (listener, topics) => listeners.add(listener, topics),
+  };
+};
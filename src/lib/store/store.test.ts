@@ -0,0 +1,172 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createFileStore, createMemoryStore, userTopic, chatTopic, Store, LookingUser } from '.';
+
+const createUser = (id: string): LookingUser => ({
+  id,
+  pubkey: id.padEnd(64, '0'),
+  sessionId: `session-${id}`,
+  browserId: `browser-${id}`,
+  timestamp: 0,
+  status: 'looking',
+});
+
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'omestr-store-'));
+});
+
+afterEach(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+// Both backends must behave the same way to the API routes
+describe.each([
+  ['memory', () => createMemoryStore()],
+  ['file', () => createFileStore(path.join(tempDir, 'store.json'))],
+])('%s store', (_name, createStore: () => Store) => {
+  it('starts empty', async () => {
+    const store = createStore();
+
+    expect(await store.read(data => data.lookingUsers)).toEqual([]);
+    expect(await store.read(data => data.messageSequences)).toEqual({});
+  });
+
+  it('keeps changes made by update and returns its value', async () => {
+    const store = createStore();
+
+    const count = await store.update(data => {
+      data.lookingUsers.push(createUser('a'));
+      return data.lookingUsers.length;
+    });
+
+    expect(count).toBe(1);
+    expect(await store.read(data => data.lookingUsers.map(user => user.id))).toEqual(['a']);
+  });
+
+  it('applies concurrent updates one after another', async () => {
+    const store = createStore();
+
+    await Promise.all(Array.from({ length: 20 }, (_, i) => store.update(data => {
+      data.lookingUsers.push(createUser(`user-${i}`));
+    })));
+
+    expect(await store.read(data => data.lookingUsers.length)).toBe(20);
+  });
+
+  it('notifies listeners after an update until they unsubscribe', async () => {
+    const store = createStore();
+    let calls = 0;
+    const unsubscribe = store.subscribe(() => calls++);
+
+    await store.update(data => {
+      data.lookingUsers.push(createUser('a'));
+    });
+    // File store listeners are called once the write has finished
+    await store.read(() => null);
+    expect(calls).toBeGreaterThanOrEqual(1);
+
+    unsubscribe();
+    const before = calls;
+    await store.update(data => {
+      data.lookingUsers.push(createUser('b'));
+    });
+    await store.read(() => null);
+    expect(calls).toBe(before);
+  });
+
+  it('rejects when the callback throws and keeps working afterwards', async () => {
+    const store = createStore();
+
+    await expect(store.update(() => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    await store.update(data => {
+      data.lookingUsers.push(createUser('a'));
+    });
+    expect(await store.read(data => data.lookingUsers.length)).toBe(1);
+  });
+});
+
+// The file store also wakes everyone when the file changes, since other workers' writes don't say what they touched
+describe('memory store', () => {
+  it('only wakes listeners following what an update changed', async () => {
+    const store = createMemoryStore();
+    const woken: string[] = [];
+    store.subscribe(() => woken.push('a'), [userTopic('a'), chatTopic('chat-a')]);
+    store.subscribe(() => woken.push('b'), [userTopic('b'), 'queue']);
+    store.subscribe(() => woken.push('all'));
+
+    await store.update(() => null, [chatTopic('chat-a')]);
+    expect(woken.sort()).toEqual(['a', 'all']);
+
+    woken.length = 0;
+    await store.update(() => null, []);
+    expect(woken).toEqual([]);
+
+    await store.update(() => true, changed => changed ? ['queue'] : []);
+    expect(woken.sort()).toEqual(['all', 'b']);
+
+    woken.length = 0;
+    await store.update(() => null);
+    expect(woken.sort()).toEqual(['a', 'all', 'b']);
+  });
+});
+
+describe('file store', () => {
+  it('shares state between stores pointed at the same file', async () => {
+    const filePath = path.join(tempDir, 'store.json');
+
+    await createFileStore(filePath).update(data => {
+      data.lookingUsers.push(createUser('a'));
+    });
+
+    expect(await createFileStore(filePath).read(data => data.lookingUsers.map(user => user.id))).toEqual(['a']);
+  });
+
+  it('fills in collections missing from an older file', async () => {
+    const filePath = path.join(tempDir, 'store.json');
+    await fs.writeFile(filePath, JSON.stringify({ lookingUsers: [createUser('a')] }));
+
+    const data = await createFileStore(filePath).read(data => data);
+
+    expect(data.lookingUsers).toHaveLength(1);
+    expect(data.messages).toEqual([]);
+    expect(data.bans).toEqual([]);
+  });
+
+  // Separate stores stand in for separate workers, which only the mkdir lock keeps apart
+  it('does not lose updates made concurrently by several workers', async () => {
+    const filePath = path.join(tempDir, 'store.json');
+    const workers = Array.from({ length: 4 }, () => createFileStore(filePath));
+
+    await Promise.all(workers.flatMap((store, worker) =>
+      Array.from({ length: 10 }, (_, i) => store.update(data => {
+        data.lookingUsers.push(createUser(`worker-${worker}-${i}`));
+      }))
+    ));
+
+    const ids = await workers[0].read(data => data.lookingUsers.map(user => user.id));
+    expect(ids).toHaveLength(40);
+    expect(new Set(ids).size).toBe(40);
+    await expect(fs.stat(`${filePath}.lock`)).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('breaks a lock left behind by a crashed worker', async () => {
+    const filePath = path.join(tempDir, 'store.json');
+    const lockPath = `${filePath}.lock`;
+    await fs.mkdir(lockPath);
+    const stale = new Date(Date.now() - 60 * 1000);
+    await fs.utimes(lockPath, stale, stale);
+
+    await createFileStore(filePath).update(data => {
+      data.lookingUsers.push(createUser('a'));
+    });
+
+    expect(await createFileStore(filePath).read(data => data.lookingUsers.length)).toBe(1);
+  });
+});
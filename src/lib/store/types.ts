@@ -0,0 +1,161 @@
+// A user registered with the matchmaking API
+export type LookingUser = {
+  id: string;
+  pubkey: string;
+  sessionId: string;
+  timestamp: number;
+  browserId: string;
+  status: 'looking' | 'matched' | 'disconnected'; // disconnected: their partner left and they haven't looked again
+  matchedWith?: string;
+  chatSessionId?: string; // Track conversation between matched users
+  interests?: string[];
+  sharedInterests?: string[]; // Interests in common with matchedWith, set when matched
+  language?: string; // Primary language subtag, e.g. 'en'
+  anyLanguage?: boolean; // Opted in to strangers who speak another language
+  lookingSince?: number; // When the user last started looking, unlike timestamp this isn't refreshed
+  lastSeenAt?: number; // Last registration, heartbeat or event stream keep-alive; stale users are removed
+  tokenHash?: string; // Hash of the secret token issued at registration, proves ownership of the ID
+  blockedBrowserKeys?: string[]; // Browser keys this user has blocked, never matched with them
+  ip?: string; // Address the user last registered from, so moderators can ban it
+};
+
+// A message relayed through the messages API
+export interface ChatMessage {
+  id: string;
+  content: string;
+  senderId: string;
+  receiverId: string;
+  timestamp: number;
+  chatSessionId: string; // Add session ID to track conversation
+  seq?: number; // Position in the chat, assigned by the server; clients poll by it
+  deliveredAt?: number; // When the receiver acknowledged getting it
+  readAt?: number; // When the receiver acknowledged seeing it
+}
+
+// How far a message has got, as reported back to its sender
+export type ReceiptStatus = 'sent' | 'delivered' | 'read';
+
+export interface MessageReceipt {
+  messageId: string;
+  status: ReceiptStatus;
+}
+
+// An emoji reaction relayed through the reactions API
+export interface Reaction {
+  messageId: string;
+  emoji: string;
+  senderId: string;
+  receiverId: string;
+  timestamp: number;
+  chatSessionId: string;
+}
+
+// Whether a user is typing in a chat, refreshed while they keep typing
+export interface TypingState {
+  chatSessionId: string;
+  userId: string;
+  typing: boolean;
+  timestamp: number;
+}
+
+// Someone a browser was recently matched with, so they aren't paired again straight away
+// Keyed by browserId so a fresh userId doesn't reset it
+export interface RecentPartner {
+  browserId: string;
+  partnerBrowserId: string;
+  timestamp: number;
+}
+
+// A message quoted in a report, decrypted by the reporter who chose to share it
+export interface ReportedMessage {
+  sender: 'reporter' | 'reported';
+  content: string;
+  timestamp: number;
+}
+
+// A report of abuse, filed from the chat UI
+export interface Report {
+  id: string;
+  reason: 'spam' | 'harassment' | 'inappropriate' | 'underage' | 'other';
+  details?: string;
+  reporterId: string;
+  reporterBrowserId: string;
+  reportedId: string;
+  reportedPubkey: string;
+  reportedBrowserId?: string; // Unknown if they left and the two weren't recently matched
+  chatSessionId: string;
+  messages: ReportedMessage[];
+  filter?: string; // The content filter that sent the report automatically, if one did
+  timestamp: number;
+}
+
+// What a ban applies to
+export type BanType = 'browserId' | 'pubkey' | 'ip';
+
+// A ban placed by a moderator through the admin API
+export interface Ban {
+  id: string;
+  type: BanType;
+  value: string;
+  reason?: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// Why a user left their chat
+export type DisconnectReason = 'skipped' | 'closed' | 'timed_out' | 'banned';
+
+// A chat that ended, kept so the partner who stayed can find out why
+export interface EndedChat {
+  chatSessionId: string;
+  userId: string; // Who left
+  reason: DisconnectReason;
+  endedAt: number;
+}
+
+// Everything the API routes keep between requests
+export interface StoreData {
+  lookingUsers: LookingUser[];
+  messages: ChatMessage[];
+  messageSequences: Record<string, number>; // Last sequence number given out in each chat
+  reactions: Reaction[];
+  recentPartners: RecentPartner[];
+  reports: Report[];
+  bans: Ban[];
+  typing: TypingState[];
+  endedChats: EndedChat[];
+  matchTimes: number[]; // When recent matches were made, for estimating how long the queue takes
+}
+
+// Part of the store a listener can follow: one user, one chat, or the matchmaking queue
+export type StoreTopic = `user:${string}` | `chat:${string}` | 'queue';
+
+// What an update changed, so only listeners following it are woken
+// Leaving it out wakes every listener, and an empty list wakes none. It may be worked out
+// from the callback's result, e.g. to wake everyone only if someone was removed.
+export type UpdateTopics<T> = StoreTopic[] | ((value: T) => StoreTopic[] | undefined);
+
+// Shared state backend for the API routes.
+// Callbacks receive the whole data set and may mutate it in place;
+// each call runs atomically with respect to other calls on the same store.
+export interface Store {
+  read<T>(fn: (data: StoreData) => T): Promise<T>;
+  update<T>(fn: (data: StoreData) => T, topics?: UpdateTopics<T>): Promise<T>;
+  // Register a listener called after the data may have changed; returns an unsubscribe function
+  // With topics, it's only called for updates that touched one of them or didn't say what they touched.
+  subscribe(listener: () => void, topics?: StoreTopic[]): () => void;
+}
+
+// Create an empty data set
+export const createEmptyData = (): StoreData => ({
+  lookingUsers: [],
+  messages: [],
+  messageSequences: {},
+  reactions: [],
+  recentPartners: [],
+  reports: [],
+  bans: [],
+  typing: [],
+  endedChats: [],
+  matchTimes: [],
+});